@@ -7,9 +7,21 @@ A simplified version that works without external dependencies
 import json
 import csv
 import re
+import unicodedata
 from collections import Counter
 import math
 
+# Function words skipped in word frequency analysis; negations are kept because they carry sentiment
+STOPWORDS = {
+    'about', 'after', 'again', 'also', 'been', 'before', 'being', 'between', 'both', 'could', 'does',
+    'doing', 'during', 'each', 'even', 'ever', 'every', 'from', 'further', 'have', 'having', 'here',
+    'hers', 'herself', 'himself', 'into', 'itself', 'just', 'many', 'more', 'most', 'much', 'myself',
+    'once', 'only', 'other', 'ours', 'over', 'quite', 'really', 'same', 'should', 'some', 'still',
+    'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those',
+    'through', 'under', 'until', 'very', 'were', 'what', 'when', 'where', 'which', 'while', 'whom',
+    'will', 'with', 'would', 'your', 'yours', 'yourself'
+}
+
 class SimpleSentimentAnalyzer:
     def __init__(self):
         # Simple positive and negative word lists
@@ -34,8 +46,9 @@ class SimpleSentimentAnalyzer:
         if not text:
             return ""
         
-        # Convert to lowercase and remove special characters
-        text = re.sub(r'[^a-zA-Z\s]', '', text.lower())
+        # Lowercase and keep Unicode letters and combining marks (accents, Devanagari vowel signs)
+        text = re.sub(r"['’]", '', unicodedata.normalize('NFC', text.lower()))
+        text = ''.join(ch if unicodedata.category(ch)[0] in 'LM' else ' ' for ch in text)
         # Remove extra whitespace
         text = ' '.join(text.split())
         return text
@@ -96,6 +109,7 @@ def analyze_reviews():
         print(f"📊 Processing {len(reviews_data)} reviews...")
         
         all_words = []
+        words_by_sentiment = {'positive': [], 'negative': [], 'neutral': []}
         polarities = []
         subjectivities = []
         
@@ -126,7 +140,9 @@ def analyze_reviews():
             
             # Collect words for analysis
             clean_words = analyzer.clean_text(review_text).split()
-            all_words.extend([word for word in clean_words if len(word) > 3])
+            content_words = [word for word in clean_words if len(word) > 3 and word not in STOPWORDS]
+            all_words.extend(content_words)
+            words_by_sentiment[sentiment].extend(content_words)
         
         # Calculate statistics
         results['total_reviews'] = len(results['reviews'])
@@ -143,6 +159,8 @@ def analyze_reviews():
         word_freq = Counter(all_words)
         results['word_analysis'] = {
             'most_common': word_freq.most_common(10),
+            'most_common_positive': Counter(words_by_sentiment['positive']).most_common(10),
+            'most_common_negative': Counter(words_by_sentiment['negative']).most_common(10),
             'total_unique_words': len(word_freq)
         }
         
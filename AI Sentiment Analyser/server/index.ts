@@ -0,0 +1,137 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { analyzeReviews } from '../src/lib/analysis';
+import { AspectDictionary } from '../src/lib/aspects';
+import { validateLexicon } from '../src/lib/customLexicon';
+import { AnalysisRun, CustomLexicon, ReviewRecord } from '../src/types';
+
+const HOST = process.env.HOST ?? '127.0.0.1';
+const PORT = Number(process.env.PORT ?? 8787);
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+const MAX_STORED_RUNS = 100;
+
+const runs = new Map<string, AnalysisRun>();
+const startedAt = Date.now();
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+};
+
+const parseAspects = (value: unknown): AspectDictionary | undefined => {
+  if (value === undefined) return undefined;
+  const valid = value !== null && typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value).every(seeds => Array.isArray(seeds) && seeds.every(seed => typeof seed === 'string'));
+  if (!valid) throw new HttpError(400, '"aspects" must map aspect names to arrays of seed terms');
+  return value as AspectDictionary;
+};
+
+const parseLexicon = (value: unknown): CustomLexicon | undefined => {
+  if (value === undefined) return undefined;
+  try {
+    return validateLexicon(value);
+  } catch (error) {
+    throw new HttpError(400, `Invalid "lexicon": ${(error as Error).message}`);
+  }
+};
+
+interface AnalyzeRequest {
+  dataset: string;
+  reviews: ReviewRecord[];
+  aspects?: AspectDictionary;
+  lexicon?: CustomLexicon;
+}
+
+const parseReviews = (body: unknown): AnalyzeRequest => {
+  const payload = body as { dataset?: unknown; reviews?: unknown; aspects?: unknown; lexicon?: unknown };
+  if (!payload || !Array.isArray(payload.reviews)) {
+    throw new HttpError(400, 'Expected a "reviews" array');
+  }
+  payload.reviews.forEach((review, index) => {
+    if (!review || typeof review.Review_Text !== 'string' || typeof review.Review_ID !== 'string') {
+      throw new HttpError(400, `Review at index ${index} needs string Review_ID and Review_Text fields`);
+    }
+  });
+  return {
+    dataset: typeof payload.dataset === 'string' ? payload.dataset : 'Uploaded reviews',
+    reviews: payload.reviews as ReviewRecord[],
+    aspects: parseAspects(payload.aspects),
+    lexicon: parseLexicon(payload.lexicon)
+  };
+};
+
+const storeRun = (run: AnalysisRun) => {
+  runs.set(run.id, run);
+  if (runs.size > MAX_STORED_RUNS) {
+    const oldest = runs.keys().next().value;
+    if (oldest !== undefined) runs.delete(oldest);
+  }
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const { pathname } = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+  if (req.method === 'GET' && pathname === '/api/health') {
+    sendJson(res, 200, { status: 'ok', uptime_seconds: Math.round((Date.now() - startedAt) / 1000), stored_runs: runs.size });
+    return;
+  }
+
+  if (req.method === 'POST' && pathname === '/api/analyze') {
+    const { dataset, reviews, aspects, lexicon } = parseReviews(await readJson(req));
+    const run: AnalysisRun = {
+      id: randomUUID(),
+      dataset,
+      lexicon_version: lexicon?.version ?? 0,
+      results: analyzeReviews(reviews, { aspects, lexicon })
+    };
+    storeRun(run);
+    sendJson(res, 201, run);
+    return;
+  }
+
+  const resultMatch = pathname.match(/^\/api\/results\/([\w-]+)$/);
+  if (req.method === 'GET' && resultMatch) {
+    const run = runs.get(resultMatch[1]);
+    if (!run) throw new HttpError(404, `No stored run with id ${resultMatch[1]}`);
+    sendJson(res, 200, run);
+    return;
+  }
+
+  throw new HttpError(404, `No route for ${req.method} ${pathname}`);
+};
+
+const server = createServer((req, res) => {
+  handle(req, res).catch(error => {
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message });
+    } else {
+      console.error('Request failed:', error);
+      sendJson(res, 500, { error: 'Internal server error' });
+    }
+  });
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`🚀 Sentiment analysis API listening on http://${HOST}:${PORT}`);
+});
@@ -1,8 +1,12 @@
-import React from 'react';
+import AnalysisProvider from './components/AnalysisProvider';
 import Dashboard from './components/Dashboard';
 
 function App() {
-  return <Dashboard />;
+  return (
+    <AnalysisProvider>
+      <Dashboard />
+    </AnalysisProvider>
+  );
 }
 
-export default App;
\ No newline at end of file
+export default App;
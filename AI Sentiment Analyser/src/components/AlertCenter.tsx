@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { BellRing, Plus, RotateCcw, Trash2, Webhook, X } from 'lucide-react';
+import { Granularity } from '../lib/timeseries';
+import {
+  ALERT_METHODS, ALERT_METRICS, Alert, AlertMethod, AlertMetric, AlertRule, AlertSeverity, DEFAULT_ALERT_RULES,
+  alertWebhookPayload, createAlertRule
+} from '../lib/alerts';
+import { downloadFile, slugify } from '../lib/download';
+
+const GRANULARITIES: Granularity[] = ['day', 'week', 'month'];
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  critical: 'bg-red-500/30 text-red-100',
+  warning: 'bg-amber-500/30 text-amber-100'
+};
+
+interface AlertCenterProps {
+  alerts: Alert[];
+  rules: AlertRule[];
+  categories: string[];
+  dataset: string;
+  onRulesChange: (rules: AlertRule[]) => void;
+  onClose: () => void;
+}
+
+const AlertCenter: React.FC<AlertCenterProps> = ({ alerts, rules, categories, dataset, onRulesChange, onClose }) => {
+  const [tab, setTab] = useState<'alerts' | 'rules'>('alerts');
+
+  const updateRule = (id: string, changes: Partial<AlertRule>) =>
+    onRulesChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+
+  // Empty or unreadable number fields keep the previous value
+  const numberChange = (id: string, field: 'window' | 'threshold' | 'min_reviews', min: number) =>
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const value = Number(event.target.value);
+      if (event.target.value !== '' && Number.isFinite(value)) updateRule(id, { [field]: Math.max(min, value) });
+    };
+
+  const exportWebhook = () =>
+    downloadFile(alertWebhookPayload(alerts, dataset), `alerts_${slugify(dataset)}.json`, 'application/json');
+
+  const inputClass = 'bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white text-sm';
+  const buttonClass = 'flex items-center gap-2 px-4 py-2 rounded-xl bg-white/10 text-white/90 hover:bg-white/20 text-sm font-medium disabled:opacity-40';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20 mb-12"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-2xl font-bold flex items-center gap-3 text-white">
+          <BellRing className="w-7 h-7 text-red-400" />
+          Alert Center
+          <span className="text-sm font-medium text-white/60">
+            {alerts.length} triggered · {rules.filter(rule => rule.enabled).length} active rules
+          </span>
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          {(['alerts', 'rules'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setTab(option)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium capitalize transition-all duration-300 ${
+                tab === option
+                  ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white'
+                  : 'bg-white/10 text-white/70 hover:text-white'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+          <button onClick={exportWebhook} disabled={alerts.length === 0} className={buttonClass}>
+            <Webhook className="w-4 h-4" />
+            Webhook JSON
+          </button>
+          <button onClick={onClose} className="p-2 rounded-xl text-white/70 hover:text-white hover:bg-white/10">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {tab === 'alerts' ? (
+        alerts.length === 0 ? (
+          <p className="text-white/70">
+            No rule has fired on the dated reviews of this run. Rules compare each period with the trailing baseline of
+            the same category.
+          </p>
+        ) : (
+          <div className="space-y-3 max-h-[28rem] overflow-y-auto pr-2">
+            {alerts.map(alert => (
+              <div key={alert.id} className="bg-white/10 rounded-2xl p-4 border border-white/20">
+                <div className="flex flex-wrap items-center gap-2 mb-2 text-sm">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold uppercase ${SEVERITY_STYLES[alert.severity]}`}>
+                    {alert.severity}
+                  </span>
+                  <span className="font-semibold text-white">{alert.rule_name}</span>
+                  <span className="text-white/60 text-xs">
+                    {alert.bucket_start} – {alert.bucket_end} · {alert.reviews} reviews
+                  </span>
+                </div>
+                <p className="text-white/90 text-sm">{alert.message}</p>
+                {alert.review_ids.length > 0 && (
+                  <p className="text-white/50 text-xs mt-2 font-mono">{alert.review_ids.join(', ')}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )
+      ) : (
+        <>
+          <p className="text-white/70 text-sm mb-6">
+            Sentiment drops watch average polarity and term spikes watch the share of reviews mentioning a phrase. A
+            rolling z-score fires when one period is that many standard errors past its baseline; CUSUM accumulates
+            smaller shifts period after period and fires once the sum passes the threshold.
+          </p>
+          <div className="space-y-3 mb-6">
+            {rules.map(rule => (
+              <div key={rule.id} className="flex flex-wrap items-center gap-2 bg-white/10 rounded-2xl p-4 border border-white/20">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={event => updateRule(rule.id, { enabled: event.target.checked })}
+                  aria-label="Enabled"
+                />
+                <input
+                  value={rule.name}
+                  onChange={event => updateRule(rule.id, { name: event.target.value })}
+                  className={`${inputClass} flex-1 min-w-[10rem]`}
+                />
+                <select
+                  value={rule.metric}
+                  onChange={event => updateRule(rule.id, { metric: event.target.value as AlertMetric })}
+                  className={inputClass}
+                >
+                  {ALERT_METRICS.map(option => (
+                    <option key={option.id} value={option.id} className="text-gray-900">{option.label}</option>
+                  ))}
+                </select>
+                {rule.metric === 'term_spike' && (
+                  <input
+                    value={rule.term}
+                    onChange={event => updateRule(rule.id, { term: event.target.value })}
+                    placeholder="term"
+                    className={`${inputClass} w-28`}
+                  />
+                )}
+                <select
+                  value={rule.method}
+                  onChange={event => updateRule(rule.id, { method: event.target.value as AlertMethod })}
+                  className={inputClass}
+                >
+                  {ALERT_METHODS.map(option => (
+                    <option key={option.id} value={option.id} className="text-gray-900">{option.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={rule.category ?? ''}
+                  onChange={event => updateRule(rule.id, { category: event.target.value || null })}
+                  className={inputClass}
+                >
+                  <option value="" className="text-gray-900">Each category</option>
+                  {categories.map(category => (
+                    <option key={category} value={category} className="text-gray-900">{category}</option>
+                  ))}
+                </select>
+                <select
+                  value={rule.granularity}
+                  onChange={event => updateRule(rule.id, { granularity: event.target.value as Granularity })}
+                  className={`${inputClass} capitalize`}
+                >
+                  {GRANULARITIES.map(option => (
+                    <option key={option} value={option} className="text-gray-900">{option}</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-1 text-xs text-white/70">
+                  Baseline
+                  <input type="number" min={2} value={rule.window} onChange={numberChange(rule.id, 'window', 2)} className={`${inputClass} w-16`} />
+                </label>
+                <label className="flex items-center gap-1 text-xs text-white/70">
+                  {rule.method === 'cusum' ? 'h' : 'z'}
+                  <input type="number" min={0.5} step={0.5} value={rule.threshold} onChange={numberChange(rule.id, 'threshold', 0.5)} className={`${inputClass} w-20`} />
+                </label>
+                <label className="flex items-center gap-1 text-xs text-white/70">
+                  Min reviews
+                  <input type="number" min={1} value={rule.min_reviews} onChange={numberChange(rule.id, 'min_reviews', 1)} className={`${inputClass} w-16`} />
+                </label>
+                <button
+                  onClick={() => onRulesChange(rules.filter(other => other.id !== rule.id))}
+                  className="p-2 rounded-xl text-white/70 hover:text-white hover:bg-white/10"
+                  aria-label="Delete rule"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => onRulesChange([...rules, createAlertRule()])} className={buttonClass}>
+              <Plus className="w-4 h-4" />
+              Add rule
+            </button>
+            <button onClick={() => onRulesChange(DEFAULT_ALERT_RULES)} className={buttonClass}>
+              <RotateCcw className="w-4 h-4" />
+              Restore defaults
+            </button>
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+};
+
+export default AlertCenter;
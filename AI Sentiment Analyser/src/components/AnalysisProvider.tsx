@@ -0,0 +1,495 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import {
+  AnalysisResults, AnalysisRun, ChartType, CustomLexicon, Emotion, ExplorerFilters, HumanLabels, ReviewDataset, SegmentDimension,
+  SentimentLabel
+} from '../types';
+import { AnalysisProgress, analyzeDataset } from '../lib/api';
+import { loadSampleReviews } from '../lib/reviews';
+import {
+  assessQualityInWorker, bootstrapInWorker, isAbortError, scoreInWorkers, summarizeInWorker
+} from '../lib/workerPool';
+import { isScored } from '../lib/language';
+import { DEFAULT_CUSTOM_LEXICON } from '../lib/customLexicon';
+import {
+  deleteClassifier, deleteRun, deleteView, listRuns, listViews, loadAlertRules, loadClassifier, loadCustomLexicon, loadHumanLabels,
+  saveAlertRules, saveClassifier, saveCustomLexicon, saveHumanLabels, saveRun, saveView
+} from '../lib/db';
+import { LabelChange, diffLabels } from '../lib/compare';
+import { DateRange, filterByDateRange } from '../lib/timeseries';
+import { attachHumanLabels, labelTextHash, matchingLabels, preferHumanLabels } from '../lib/labeling';
+import { ClassifierModel, applyClassifier } from '../lib/classifier';
+import { SatisfactionEstimate, SatisfactionFormula, estimateSatisfaction, satisfactionSamples } from '../lib/satisfaction';
+import { AlertRule, DEFAULT_ALERT_RULES, buildAlertSeries, evaluateAlerts } from '../lib/alerts';
+import { QualityIssue, excludeFlagged } from '../lib/quality';
+import { DEFAULT_EXPLORER_FILTERS, DashboardView, SavedView, decodeView, encodeView } from '../lib/viewState';
+import { useRoute } from '../lib/router';
+import { AnalysisContext, AnalysisState } from '../lib/analysisContext';
+
+// Brushing the timeline or typing a filter only starts one worker job once it pauses
+const WORKER_DEBOUNCE_MS = 400;
+
+const AnalysisProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // A pasted link restores its view; the run it names is reopened once run history loads
+  const [linkedView] = useState(() => decodeView(window.location.search));
+  const [results, setResults] = useState<AnalysisResults | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [selectedChart, setSelectedChart] = useState<ChartType>(linkedView.chart);
+  const [dataset, setDataset] = useState<ReviewDataset>(() => ({ name: 'sample_reviews.csv', reviews: loadSampleReviews() }));
+  const [dateRange, setDateRange] = useState<DateRange | null>(linkedView.range);
+  const [lexicon, setLexicon] = useState<CustomLexicon>(DEFAULT_CUSTOM_LEXICON);
+  const [labelChanges, setLabelChanges] = useState<LabelChange[] | null>(null);
+  const [runs, setRuns] = useState<AnalysisRun[]>([]);
+  const [activeRunId, setActiveRunId] = useState<string | null>(linkedView.run);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [termFilter, setTermFilter] = useState<string | null>(linkedView.term);
+  const [emotionFilter, setEmotionFilter] = useState<Emotion | null>(linkedView.emotion);
+  const [explorerFilters, setExplorerFilters] = useState<ExplorerFilters>(linkedView.filters);
+  const [segmentDimension, setSegmentDimension] = useState<SegmentDimension>(linkedView.segment);
+  const [storedLabels, setStoredLabels] = useState<HumanLabels>({});
+  const [preferHuman, setPreferHuman] = useState(true);
+  const [classifier, setClassifier] = useState<ClassifierModel | null>(null);
+  const [satisfactionFormula, setSatisfactionFormula] = useState<SatisfactionFormula>(linkedView.formula);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(DEFAULT_ALERT_RULES);
+  const [excludeLowQuality, setExcludeLowQuality] = useState(linkedView.exclude_low_quality);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [quality, setQuality] = useState<{ source: AnalysisResults; issues: QualityIssue[] } | null>(null);
+  const [filteredView, setFilteredView] = useState<{ source: AnalysisResults; results: AnalysisResults } | null>(null);
+  const [satisfactionInterval, setSatisfactionInterval] = useState<
+    { estimate: SatisfactionEstimate; lower: number; upper: number } | null
+  >(null);
+  const analysisAbort = useRef<AbortController | null>(null);
+  const rescoreAbort = useRef<AbortController | null>(null);
+  const announceAlerts = useRef(false);
+  const [page, navigate] = useRoute();
+
+  useEffect(() => {
+    loadCustomLexicon()
+      .then(saved => { if (saved) setLexicon(saved); })
+      .catch(error => console.error('Could not load the saved lexicon:', error));
+    listRuns()
+      .then(saved => {
+        setRuns(saved);
+        if (!linkedView.run) return;
+        const linked = saved.find(run => run.id === linkedView.run);
+        if (linked) {
+          setResults(linked.results);
+          setDataset({ name: linked.dataset, reviews: linked.results.reviews });
+        } else {
+          setActiveRunId(null);
+          toast.error('The linked run is not saved in this browser');
+        }
+      })
+      .catch(error => console.error('Could not load run history:', error));
+    listViews()
+      .then(setSavedViews)
+      .catch(error => console.error('Could not load saved views:', error));
+    loadClassifier()
+      .then(saved => { if (saved) setClassifier(saved); })
+      .catch(error => console.error('Could not load the saved classifier:', error));
+    loadAlertRules()
+      .then(setAlertRules)
+      .catch(error => console.error('Could not load alert rules:', error));
+  }, [linkedView]);
+
+  const currentView = useMemo<DashboardView>(() => ({
+    chart: selectedChart,
+    run: activeRunId,
+    range: dateRange,
+    segment: segmentDimension,
+    term: termFilter,
+    emotion: emotionFilter,
+    filters: explorerFilters,
+    formula: satisfactionFormula,
+    exclude_low_quality: excludeLowQuality
+  }), [
+    selectedChart, activeRunId, dateRange, segmentDimension, termFilter, emotionFilter, explorerFilters, satisfactionFormula,
+    excludeLowQuality
+  ]);
+
+  // The address bar always links to what is on screen; replaceState keeps filter tweaks out of the back button
+  useEffect(() => {
+    const query = encodeView(currentView);
+    const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+    if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+      window.history.replaceState(null, '', url);
+    }
+  }, [currentView]);
+
+  useEffect(() => {
+    loadHumanLabels(dataset.name)
+      .then(setStoredLabels)
+      .catch(error => console.error('Could not load human labels:', error));
+  }, [dataset.name]);
+
+  // The open run records the lexicon it was scored with; fresh re-scores use the current one
+  const activeLexiconVersion = runs.find(run => run.id === activeRunId)?.lexicon_version ?? lexicon.version;
+
+  const categories = useMemo(
+    () => [...new Set(dataset.reviews.flatMap(review => (review.Product_Category ? [review.Product_Category] : [])))].sort(),
+    [dataset]
+  );
+
+  // Quality checks take seconds on a large run, so they run in the worker that already holds its reviews
+  useEffect(() => {
+    if (!results) return;
+    const controller = new AbortController();
+    assessQualityInWorker(results.reviews, { signal: controller.signal })
+      .then(issues => setQuality({ source: results, issues }))
+      .catch(error => {
+        if (!isAbortError(error)) console.error('Quality check error:', error);
+      });
+    return () => controller.abort();
+  }, [results]);
+  const qualityIssues = useMemo(
+    () => (quality && quality.source === results ? quality.issues : []),
+    [quality, results]
+  );
+  // Duplicates and spam-like reviews are left out of every metric unless the quality panel says otherwise
+  const keptReviews = useMemo(() => {
+    if (!results) return [];
+    return excludeLowQuality ? excludeFlagged(results.reviews, qualityIssues) : results.reviews;
+  }, [results, qualityIssues, excludeLowQuality]);
+  const excludedCount = results ? results.reviews.length - keptReviews.length : 0;
+
+  // A label applies only while its review text matches, so another upload under the same file name starts clean
+  const humanLabels = useMemo(() => matchingLabels(results?.reviews ?? [], storedLabels), [results, storedLabels]);
+
+  // Human labels and the active classifier's predictions ride along on every review
+  const allReviews = useMemo(
+    () => attachHumanLabels(classifier ? applyClassifier(keptReviews, classifier) : keptReviews, humanLabels),
+    [keptReviews, classifier, humanLabels]
+  );
+
+  // Everything below the timeline reflects the brushed date range
+  const rangeReviews = useMemo(
+    () => (dateRange ? filterByDateRange(allReviews, dateRange) : allReviews),
+    [allReviews, dateRange]
+  );
+  const verifiedCount = useMemo(() => rangeReviews.filter(review => review.human_label).length, [rangeReviews]);
+
+  // Only a filtered or relabeled view needs a summary of its own; otherwise the run is shown as scored
+  const viewReviews = useMemo(() => {
+    if (!results) return null;
+    const applyHuman = preferHuman && verifiedCount > 0;
+    if (!dateRange && !applyHuman && !classifier && excludedCount === 0) return null;
+    return applyHuman ? preferHumanLabels(rangeReviews) : rangeReviews;
+  }, [results, dateRange, rangeReviews, preferHuman, verifiedCount, classifier, excludedCount]);
+
+  // That summary is built in a worker; the previous view stays on screen until it arrives
+  useEffect(() => {
+    if (!results || !viewReviews) return;
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => {
+      summarizeInWorker(results.reviews, viewReviews, {}, { signal: controller.signal })
+        .then(summary => setFilteredView({
+          source: results,
+          results: { ...summary, analysis_timestamp: results.analysis_timestamp }
+        }))
+        .catch(error => {
+          if (!isAbortError(error)) console.error('View summary error:', error);
+        });
+    }, WORKER_DEBOUNCE_MS);
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [results, viewReviews]);
+
+  // A summary left over from another run is never shown next to this one
+  const view = viewReviews && filteredView?.source === results ? filteredView.results : results;
+
+  // Evaluation always compares the model's own labels against the human ones
+  const evaluationReviews = useMemo(() => rangeReviews.filter(isScored), [rangeReviews]);
+
+  // Reviews flagged for an unsupported language stay in the explorer but out of every sentiment view
+  const scoredReviews = useMemo(() => (view ? view.reviews.filter(isScored) : []), [view]);
+  const satisfactionPoint = useMemo(
+    () => estimateSatisfaction(scoredReviews, satisfactionFormula),
+    [scoredReviews, satisfactionFormula]
+  );
+
+  // The bootstrap interval runs off the main thread once filters settle; a stale one is never shown
+  useEffect(() => {
+    if (satisfactionPoint.score === null || satisfactionPoint.lower !== null) return;
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => {
+      bootstrapInWorker(
+        { samples: satisfactionSamples(scoredReviews, satisfactionFormula), options: { level: satisfactionPoint.level } },
+        { signal: controller.signal }
+      )
+        .then(bounds => setSatisfactionInterval({ estimate: satisfactionPoint, ...bounds }))
+        .catch(error => {
+          if (!isAbortError(error)) console.error('Satisfaction interval error:', error);
+        });
+    }, WORKER_DEBOUNCE_MS);
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [scoredReviews, satisfactionFormula, satisfactionPoint]);
+
+  const satisfaction = useMemo(
+    () => (satisfactionInterval?.estimate === satisfactionPoint
+      ? { ...satisfactionPoint, lower: satisfactionInterval.lower, upper: satisfactionInterval.upper }
+      : satisfactionPoint),
+    [satisfactionInterval, satisfactionPoint]
+  );
+  const timelineReviews = useMemo(() => keptReviews.filter(isScored), [keptReviews]);
+  // Alerts always watch the whole run so a brushed date range cannot hide a spike, and bucket it
+  // once per run so rule edits only re-run the statistics
+  const alertSeries = useMemo(() => buildAlertSeries(timelineReviews), [timelineReviews]);
+  const alerts = useMemo(() => evaluateAlerts(alertSeries, alertRules), [alertSeries, alertRules]);
+
+  // A finished analysis announces its alerts once; later rule edits only update the Alert Center
+  useEffect(() => {
+    if (!announceAlerts.current) return;
+    announceAlerts.current = false;
+    if (alerts.length > 0) toast(`🔔 ${alerts.length} alert${alerts.length === 1 ? '' : 's'} triggered — see the Alert Center`);
+  }, [alerts]);
+
+  const analyze = async (source: ReviewDataset) => {
+    const controller = new AbortController();
+    analysisAbort.current = controller;
+    setLoading(true);
+    setProgress({ stage: 'scoring', scored: 0, total: source.reviews.length });
+
+    try {
+      const { run, engine } = await analyzeDataset(source, { lexicon }, {
+        onProgress: setProgress,
+        signal: controller.signal
+      });
+      
+      setResults(run.results);
+      announceAlerts.current = true;
+      setActiveRunId(run.id);
+      // A fresh analysis starts unfiltered; the old dataset's category or search would hide the new one
+      setDateRange(null);
+      setTermFilter(null);
+      setEmotionFilter(null);
+      setExplorerFilters(DEFAULT_EXPLORER_FILTERS);
+      setLabelChanges(null);
+      setRuns(current => [run, ...current]);
+      saveRun(run).catch(error => console.error('Could not save run:', error));
+      toast.success(engine === 'api'
+        ? '✨ Analysis complete! Ready to explore insights'
+        : '✨ Analysis complete in the browser (API server offline)', { 
+        id: 'analysis',
+        style: {
+          background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+          color: 'white',
+          borderRadius: '12px',
+          fontWeight: '500'
+        }
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast('Analysis cancelled', { id: 'analysis' });
+        return;
+      }
+      toast.error('❌ Analysis failed! Please try again', { 
+        id: 'analysis',
+        style: {
+          background: 'linear-gradient(135deg, #FF6B9D 0%, #FF8E53 100%)',
+          color: 'white',
+          borderRadius: '12px',
+          fontWeight: '500'
+        }
+      });
+      console.error('Analysis error:', error);
+    } finally {
+      analysisAbort.current = null;
+      setLoading(false);
+      setProgress(null);
+    }
+  };
+
+  const importDataset = (imported: ReviewDataset) => {
+    setDataset(imported);
+    analyze(imported);
+  };
+
+  // Edits re-score in the browser straight away so the diff appears while the editor is open
+  const onLexiconChange = (next: CustomLexicon) => {
+    setLexicon(next);
+    saveCustomLexicon(next).catch(error => {
+      toast.error('Could not save the lexicon in this browser');
+      console.error('Lexicon save error:', error);
+    });
+    if (!results) return;
+    rescoreAbort.current?.abort();
+    const controller = new AbortController();
+    rescoreAbort.current = controller;
+    scoreInWorkers(dataset.reviews, { lexicon: next }, { signal: controller.signal })
+      .then(scored => summarizeInWorker(scored, scored, {}, { signal: controller.signal }))
+      .then(rescored => {
+        setLabelChanges(diffLabels(results.reviews, rescored.reviews));
+        setResults(rescored);
+        setActiveRunId(null);
+      })
+      .catch(error => {
+        if (!isAbortError(error)) console.error('Lexicon re-score error:', error);
+      });
+  };
+
+  const labelReview = (reviewId: string, label: SentimentLabel | null) => {
+    const review = results?.reviews.find(candidate => candidate.Review_ID === reviewId);
+    if (!review) return;
+    const next = { ...storedLabels };
+    if (label) next[reviewId] = { label, labeled_at: new Date().toISOString(), text_hash: labelTextHash(review.Review_Text) };
+    else delete next[reviewId];
+    setStoredLabels(next);
+    saveHumanLabels(dataset.name, next).catch(error => {
+      toast.error('Could not save the label in this browser');
+      console.error('Label save error:', error);
+    });
+  };
+
+  const onClassifierChange = (model: ClassifierModel | null) => {
+    setClassifier(model);
+    (model ? saveClassifier(model) : deleteClassifier()).catch(error => {
+      toast.error('Could not save the classifier in this browser');
+      console.error('Classifier save error:', error);
+    });
+  };
+
+  const onAlertRulesChange = (next: AlertRule[]) => {
+    setAlertRules(next);
+    saveAlertRules(next).catch(error => {
+      toast.error('Could not save the alert rules in this browser');
+      console.error('Alert rules save error:', error);
+    });
+  };
+
+  // The explorer is on its own page, so it is scrolled to once that page has rendered
+  const showReviews = ({ term, emotion }: { term?: string; emotion?: Emotion }) => {
+    if (term !== undefined) setTermFilter(term);
+    if (emotion !== undefined) setEmotionFilter(emotion);
+    navigate('reviews');
+    requestAnimationFrame(() => document.getElementById('review-explorer')?.scrollIntoView({ behavior: 'smooth' }));
+  };
+
+  // Puts a saved run on screen without touching the filters around it
+  const showRun = (run: AnalysisRun) => {
+    setResults(run.results);
+    setDataset({ name: run.dataset, reviews: run.results.reviews });
+    setActiveRunId(run.id);
+    setLabelChanges(null);
+  };
+
+  const openRun = (run: AnalysisRun) => {
+    showRun(run);
+    setDateRange(null);
+    setTermFilter(null);
+    setEmotionFilter(null);
+  };
+
+  const applyView = ({ view: saved }: SavedView) => {
+    if (saved.run && saved.run !== activeRunId) {
+      const run = runs.find(r => r.id === saved.run);
+      if (run) showRun(run);
+      else toast.error('The run this view was saved on has been deleted; its filters apply to the current results');
+    }
+    setSelectedChart(saved.chart);
+    setDateRange(saved.range);
+    setSegmentDimension(saved.segment);
+    setTermFilter(saved.term);
+    setEmotionFilter(saved.emotion);
+    setExplorerFilters(saved.filters);
+    setSatisfactionFormula(saved.formula);
+    setExcludeLowQuality(saved.exclude_low_quality);
+  };
+
+  const saveCurrentView = (name: string) => {
+    const existing = savedViews.find(saved => saved.name === name);
+    const saved: SavedView = { id: existing?.id ?? crypto.randomUUID(), name, saved_at: new Date().toISOString(), view: currentView };
+    setSavedViews(current => [...current.filter(other => other.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+    saveView(saved)
+      .then(() => toast.success(`Saved view “${name}”`))
+      .catch(error => {
+        toast.error('Could not save the view in this browser');
+        console.error('View save error:', error);
+      });
+  };
+
+  const removeView = (saved: SavedView) => {
+    setSavedViews(current => current.filter(other => other.id !== saved.id));
+    deleteView(saved.id).catch(error => console.error('Could not delete view:', error));
+  };
+
+  const copyViewLink = () => {
+    navigator.clipboard.writeText(window.location.href)
+      .then(() => toast.success('Link copied'))
+      .catch(() => toast.error('Could not copy the link; copy it from the address bar'));
+  };
+
+  const removeRun = (run: AnalysisRun) => {
+    setRuns(current => current.filter(r => r.id !== run.id));
+    deleteRun(run.id).catch(error => console.error('Could not delete run:', error));
+  };
+
+  const value: AnalysisState = {
+    results,
+    view,
+    dataset,
+    loading,
+    progress,
+    runAnalysis: () => analyze(dataset),
+    cancelAnalysis: () => analysisAbort.current?.abort(),
+    importDataset,
+    page,
+    navigate,
+    runs,
+    activeRunId,
+    openRun,
+    removeRun,
+    lexicon,
+    lexiconVersion: activeLexiconVersion,
+    labelChanges,
+    onLexiconChange,
+    categories,
+    qualityIssues,
+    excludedCount,
+    verifiedCount,
+    allReviews,
+    evaluationReviews,
+    scoredReviews,
+    timelineReviews,
+    satisfaction,
+    alerts,
+    alertRules,
+    onAlertRulesChange,
+    humanLabels,
+    labelReview,
+    classifier,
+    onClassifierChange,
+    chart: selectedChart,
+    onChartChange: setSelectedChart,
+    dateRange,
+    onDateRangeChange: setDateRange,
+    term: termFilter,
+    onTermChange: setTermFilter,
+    emotion: emotionFilter,
+    onEmotionChange: setEmotionFilter,
+    filters: explorerFilters,
+    onFiltersChange: setExplorerFilters,
+    segment: segmentDimension,
+    onSegmentChange: setSegmentDimension,
+    formula: satisfactionFormula,
+    onFormulaChange: setSatisfactionFormula,
+    excludeLowQuality,
+    onExcludeLowQualityChange: setExcludeLowQuality,
+    preferHuman,
+    onPreferHumanChange: setPreferHuman,
+    showReviews,
+    savedViews,
+    applyView,
+    saveCurrentView,
+    removeView,
+    copyViewLink
+  };
+
+  return <AnalysisContext.Provider value={value}>{children}</AnalysisContext.Provider>;
+};
+
+export default AnalysisProvider;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart, ResponsiveContainer, Tooltip } from 'recharts';
+import { Compass } from 'lucide-react';
+import { AspectSummary } from '../types';
+import { SENTIMENT_COLORS } from '../lib/metrics';
+
+/** Maps a -1..1 compound score onto the radar's 0..100 scale (50 = neutral). */
+const toRadarScale = (score: number) => Math.round((score + 1) * 50);
+
+const scoreColor = (score: number) =>
+  score >= 0.05 ? 'text-green-300' : score <= -0.05 ? 'text-red-300' : 'text-cyan-300';
+
+const AspectSentiment: React.FC<{ aspects: AspectSummary[] }> = ({ aspects }) => {
+  const [selected, setSelected] = useState<string | null>(null);
+  const mentioned = aspects.filter(aspect => aspect.mentions > 0);
+  const active = mentioned.find(aspect => aspect.aspect === selected) ?? mentioned[0];
+
+  const chartData = aspects.map(aspect => ({
+    aspect: aspect.aspect,
+    sentiment: aspect.mentions ? toRadarScale(aspect.average_sentiment) : 50,
+    mentions: aspect.mentions
+  }));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 50 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.85, duration: 0.8 }}
+      className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20"
+    >
+      <h3 className="text-2xl font-bold mb-8 flex items-center gap-3 text-white">
+        <Compass className="w-7 h-7 text-cyan-400" />
+        Aspect Sentiment
+      </h3>
+
+      {mentioned.length === 0 ? (
+        <p className="text-white/70">No sentences mention any of the configured aspects.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <RadarChart data={chartData} outerRadius="75%">
+                <PolarGrid stroke="rgba(255,255,255,0.2)" />
+                <PolarAngleAxis dataKey="aspect" stroke="white" tick={{ fill: 'white', fontSize: 14 }} />
+                <PolarRadiusAxis domain={[0, 100]} tick={false} axisLine={false} />
+                <Tooltip
+                  formatter={(value: number) => [`${value}/100`, 'Sentiment']}
+                  contentStyle={{
+                    backgroundColor: 'rgba(255,255,255,0.9)',
+                    border: 'none',
+                    borderRadius: '12px',
+                    boxShadow: '0 10px 30px rgba(0,0,0,0.2)'
+                  }}
+                />
+                <Radar dataKey="sentiment" stroke={SENTIMENT_COLORS.Neutral} fill={SENTIMENT_COLORS.Neutral} fillOpacity={0.4} />
+              </RadarChart>
+            </ResponsiveContainer>
+            <p className="text-xs text-white/50 text-center">50 = neutral · higher is more positive</p>
+          </div>
+
+          <div>
+            <div className="flex flex-wrap gap-2 mb-6">
+              {aspects.map(aspect => (
+                <button
+                  key={aspect.aspect}
+                  disabled={aspect.mentions === 0}
+                  onClick={() => setSelected(aspect.aspect)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-300 disabled:opacity-40 ${
+                    active?.aspect === aspect.aspect ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white' : 'bg-white/10 text-white/70 hover:text-white'
+                  }`}
+                >
+                  {aspect.aspect} <span className="opacity-70">({aspect.mentions})</span>
+                </button>
+              ))}
+            </div>
+
+            {active && (
+              <>
+                <div className="flex flex-wrap gap-4 text-sm text-white/80 mb-4">
+                  <span>Avg <span className={`font-bold ${scoreColor(active.average_sentiment)}`}>{active.average_sentiment}</span></span>
+                  <span>{active.reviews} reviews</span>
+                  <span className="text-green-300">{active.positive} positive</span>
+                  <span className="text-red-300">{active.negative} negative</span>
+                  <span className="text-cyan-300">{active.neutral} neutral</span>
+                </div>
+                <div className="space-y-3 max-h-64 overflow-y-auto pr-2">
+                  {active.examples.map(example => (
+                    <div key={`${example.review_id}-${example.snippet}`} className="bg-white/10 rounded-xl p-4 text-sm">
+                      <div className="flex gap-2 mb-1 text-xs">
+                        <span className="font-mono font-bold text-white">{example.review_id}</span>
+                        <span className={scoreColor(example.score)}>{example.score}</span>
+                      </div>
+                      <p className="text-white/90 leading-relaxed">{example.snippet}</p>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default AspectSentiment;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { TrendingUp, BarChart3, PieChart as PieChartIcon, Activity, CalendarDays } from 'lucide-react';
+import { ChartType } from '../types';
+import { CHART_TYPES } from '../lib/viewState';
+
+interface ChartSelectorProps {
+  selected: ChartType;
+  onSelect: (chart: ChartType) => void;
+}
+
+const ChartSelector: React.FC<ChartSelectorProps> = ({ selected, onSelect }) => (
+  <motion.div
+    initial={{ opacity: 0, y: 20 }}
+    animate={{ opacity: 1, y: 0 }}
+    className="flex bg-gradient-to-r from-purple-100 via-pink-50 to-blue-100 rounded-2xl p-2 mb-8 shadow-lg backdrop-blur-sm"
+  >
+    {CHART_TYPES.map((type, index) => (
+      <motion.button
+        key={type}
+        onClick={() => onSelect(type)}
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        initial={{ opacity: 0, x: -20 }}
+        animate={{ opacity: 1, x: 0 }}
+        transition={{ delay: index * 0.1 }}
+        className={`flex items-center gap-3 px-6 py-3 rounded-xl transition-all duration-300 font-medium ${
+          selected === type
+            ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white shadow-lg transform scale-105'
+            : 'text-gray-700 hover:bg-white/50 hover:text-purple-600'
+        }`}
+      >
+        {type === 'pie' && <PieChartIcon className="w-5 h-5" />}
+        {type === 'bar' && <BarChart3 className="w-5 h-5" />}
+        {type === 'line' && <TrendingUp className="w-5 h-5" />}
+        {type === 'area' && <Activity className="w-5 h-5" />}
+        {type === 'timeline' && <CalendarDays className="w-5 h-5" />}
+        {type.charAt(0).toUpperCase() + type.slice(1)}
+      </motion.button>
+    ))}
+  </motion.div>
+);
+
+export default ChartSelector;
@@ -0,0 +1,204 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Cpu, Download, Play, Trash2, Upload, X } from 'lucide-react';
+import { ScoredReview } from '../types';
+import {
+  CLASSIFIER_KINDS, ClassifierKind, ClassifierModel, DEFAULT_FOLDS, MIN_TRAINING_SAMPLES, parseClassifierJson,
+  serializeModel, trainingSamples
+} from '../lib/classifier';
+import { TrainingProgress, isAbortError, trainInWorker } from '../lib/workerPool';
+import { downloadFile } from '../lib/download';
+
+const FOLD_OPTIONS = [3, 5, 10];
+
+interface ClassifierTrainerProps {
+  /** Every review of the run with human labels attached; those and ratings become training targets. */
+  reviews: ScoredReview[];
+  model: ClassifierModel | null;
+  onModelChange: (model: ClassifierModel | null) => void;
+}
+
+const kindLabel = (kind: ClassifierKind) => CLASSIFIER_KINDS.find(option => option.id === kind)?.label ?? kind;
+
+const ClassifierTrainer: React.FC<ClassifierTrainerProps> = ({ reviews, model, onModelChange }) => {
+  const [kind, setKind] = useState<ClassifierKind>('naive_bayes');
+  const [folds, setFolds] = useState(DEFAULT_FOLDS);
+  const [progress, setProgress] = useState<TrainingProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abort = useRef<AbortController | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const samples = useMemo(() => trainingSamples(reviews), [reviews]);
+  const humanSamples = samples.filter(sample => sample.human).length;
+
+  useEffect(() => () => abort.current?.abort(), []);
+
+  const train = () => {
+    const controller = new AbortController();
+    abort.current = controller;
+    setError(null);
+    setProgress({ completed: 0, total: folds });
+    trainInWorker({ samples, kind, folds }, { onProgress: setProgress, signal: controller.signal })
+      .then(onModelChange)
+      .catch(trainError => {
+        if (!isAbortError(trainError)) setError((trainError as Error).message);
+      })
+      .finally(() => {
+        if (abort.current === controller) abort.current = null;
+        setProgress(null);
+      });
+  };
+
+  const importModel = async (file: File) => {
+    try {
+      onModelChange(parseClassifierJson(await file.text()));
+      setError(null);
+    } catch (importError) {
+      setError(`${file.name}: ${(importError as Error).message}`);
+    }
+  };
+
+  const selectClass = 'bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white';
+  const buttonClass = 'flex items-center gap-2 px-4 py-2 rounded-xl bg-white/10 text-white/90 hover:bg-white/20 text-sm font-medium disabled:opacity-40';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 50 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.85, duration: 0.8 }}
+      className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-2xl font-bold flex items-center gap-3 text-white">
+          <Cpu className="w-7 h-7 text-cyan-400" />
+          Trained Classifier
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={() => inputRef.current?.click()} className={buttonClass}>
+            <Upload className="w-4 h-4" />
+            Import JSON
+          </button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={event => {
+              const file = event.target.files?.[0];
+              if (file) importModel(file);
+              event.target.value = '';
+            }}
+          />
+          {model && (
+            <>
+              <button
+                onClick={() => downloadFile(serializeModel(model), `classifier_${model.kind}.json`, 'application/json')}
+                className={buttonClass}
+              >
+                <Download className="w-4 h-4" />
+                Export JSON
+              </button>
+              <button onClick={() => onModelChange(null)} className={buttonClass}>
+                <Trash2 className="w-4 h-4" />
+                Remove
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <p className="text-white/70 text-sm mb-6">
+        {samples.length} reviews have a training target: {humanSamples} human labels and {samples.length - humanSamples} star
+        ratings (≤2★ negative, ≥4★ positive). Features are TF-IDF-weighted unigrams and bigrams; the active model appears as
+        “Classifier” in the method comparison and Rating Agreement.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <select value={kind} onChange={event => setKind(event.target.value as ClassifierKind)} className={selectClass} disabled={progress !== null}>
+          {CLASSIFIER_KINDS.map(option => (
+            <option key={option.id} value={option.id} className="text-gray-900">{option.label}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-white/80">
+          Folds
+          <select value={folds} onChange={event => setFolds(Number(event.target.value))} className={selectClass} disabled={progress !== null}>
+            {FOLD_OPTIONS.map(option => (
+              <option key={option} value={option} className="text-gray-900">{option}</option>
+            ))}
+          </select>
+        </label>
+        {progress ? (
+          <>
+            <span className="text-sm text-white/80">
+              {progress.completed < progress.total ? `Cross-validating fold ${progress.completed + 1} of ${progress.total}…` : 'Fitting the final model…'}
+            </span>
+            <button onClick={() => abort.current?.abort()} className={buttonClass}>
+              <X className="w-4 h-4" />
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={train}
+            disabled={samples.length < MIN_TRAINING_SAMPLES}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-gradient-to-r from-purple-500 to-pink-500 text-white text-sm font-semibold disabled:opacity-40"
+          >
+            <Play className="w-4 h-4" />
+            Train
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-red-300 text-sm mb-6">{error}</p>}
+
+      {!model ? (
+        <p className="text-white/70">No model is active. Train one on these reviews or import a saved model.</p>
+      ) : (
+        <div>
+          <p className="text-white font-medium mb-2">
+            {kindLabel(model.kind)} · {model.vocabulary.length} features · trained on {model.samples} reviews
+            ({model.human_samples} human-labelled) · {new Date(model.trained_at).toLocaleString()}
+          </p>
+          {model.cross_validation ? (
+            <>
+              <p className="text-white/70 text-sm mb-4">
+                {model.cross_validation.folds.length}-fold cross-validation: accuracy {(model.cross_validation.accuracy * 100).toFixed(1)}%,
+                macro F1 {model.cross_validation.macro_f1}.{' '}
+                {model.cross_validation.held_out
+                  ? 'Rating Agreement judges each review the model was trained on by the fold model that held it out.'
+                  : 'This model was saved without held-out predictions, so Rating Agreement measures it on reviews it may have been trained on; retrain it for a fair comparison.'}
+              </p>
+              <table className="w-full text-sm text-white/90">
+                <thead className="text-white/70 text-xs uppercase tracking-wide border-b border-white/20">
+                  <tr>
+                    <th className="text-left py-2 pr-4">Fold</th>
+                    <th className="text-right py-2 pr-4">Held out</th>
+                    <th className="text-right py-2 pr-4">Accuracy</th>
+                    <th className="text-right py-2">Macro F1</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {model.cross_validation.folds.map(fold => (
+                    <tr key={fold.fold} className="border-b border-white/10">
+                      <td className="py-2 pr-4">{fold.fold}</td>
+                      <td className="py-2 pr-4 text-right">{fold.size}</td>
+                      <td className="py-2 pr-4 text-right">{(fold.accuracy * 100).toFixed(1)}%</td>
+                      <td className="py-2 text-right">{fold.macro_f1}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          ) : (
+            <p className="text-white/70 text-sm">
+              This model was saved without cross-validation results, so Rating Agreement measures it on reviews it may
+              have been trained on.
+            </p>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default ClassifierTrainer;
@@ -0,0 +1,201 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Upload, FileText, AlertTriangle, CheckCircle, X } from 'lucide-react';
+import { ReviewDataset } from '../types';
+import {
+  ColumnMapping, ReviewField, ReviewTable, REVIEW_FIELDS,
+  mapTableToReviews, suggestColumnMapping
+} from '../lib/reviews';
+import {
+  ACCEPTED_EXTENSIONS, IMPORT_FORMATS, ImportFormat,
+  parseReviewFile, readReviewFile
+} from '../lib/formats';
+
+const MAX_LISTED_ISSUES = 50;
+
+interface DataImportProps {
+  onImport: (dataset: ReviewDataset) => void;
+  onClose: () => void;
+}
+
+const DataImport: React.FC<DataImportProps> = ({ onImport, onClose }) => {
+  const [dragging, setDragging] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [sourceText, setSourceText] = useState('');
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [table, setTable] = useState<ReviewTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [readPercent, setReadPercent] = useState<number | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const mapped = useMemo(() => (table ? mapTableToReviews(table, mapping) : null), [table, mapping]);
+
+  const loadTable = (text: string, nextFormat: ImportFormat) => {
+    const parsed = parseReviewFile(text, nextFormat);
+    setFormat(nextFormat);
+    setTable(parsed);
+    setMapping(suggestColumnMapping(parsed.headers));
+  };
+
+  const readFile = async (file: File) => {
+    setFileName(file.name);
+    setTable(null);
+    setReadPercent(0);
+    try {
+      const { text, format: detected, table: parsed } = await readReviewFile(file, ({ loaded, total }) =>
+        setReadPercent(total ? Math.round((loaded / total) * 100) : 100)
+      );
+      setSourceText(text);
+      setFormat(detected);
+      setTable(parsed);
+      setMapping(suggestColumnMapping(parsed.headers));
+    } catch (error) {
+      setTable({ headers: [], rows: [], issues: [{ line: 1, message: `Could not read the file: ${(error as Error).message}` }] });
+    } finally {
+      setReadPercent(null);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    const file = event.dataTransfer.files[0];
+    if (file) readFile(file);
+  };
+
+  const updateMapping = (field: ReviewField, column: string) => {
+    setMapping(current => {
+      const next = { ...current };
+      if (column) next[field] = column;
+      else delete next[field];
+      return next;
+    });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20 mb-12"
+    >
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-2xl font-bold flex items-center gap-3 text-white">
+          <Upload className="w-7 h-7 text-pink-400" />
+          Import Reviews
+        </h3>
+        <button onClick={onClose} className="p-2 rounded-xl text-white/70 hover:text-white hover:bg-white/10">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div
+        onDragOver={event => { event.preventDefault(); setDragging(true); }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => inputRef.current?.click()}
+        className={`border-2 border-dashed rounded-2xl p-10 text-center cursor-pointer transition-all duration-300 ${
+          dragging ? 'border-pink-400 bg-pink-500/10' : 'border-white/30 hover:border-white/50 hover:bg-white/5'
+        }`}
+      >
+        <FileText className="w-12 h-12 mx-auto mb-4 text-white/70" />
+        <p className="text-white font-semibold text-lg">
+          {fileName ?? 'Drop a review file here or click to browse'}
+        </p>
+        <p className="text-white/60 text-sm mt-2">CSV, TSV, JSON Lines or plain text with one review per line</p>
+        {readPercent !== null && (
+          <div className="mt-6 max-w-md mx-auto">
+            <div className="bg-white/20 rounded-full h-2 overflow-hidden">
+              <div className="h-full bg-gradient-to-r from-pink-500 to-blue-500 transition-all duration-200" style={{ width: `${readPercent}%` }} />
+            </div>
+            <p className="text-white/70 text-xs mt-2">Reading file… {readPercent}%</p>
+          </div>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_EXTENSIONS}
+          className="hidden"
+          onChange={event => {
+            const file = event.target.files?.[0];
+            if (file) readFile(file);
+            event.target.value = '';
+          }}
+        />
+      </div>
+
+      {table && mapped && (
+        <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div>
+            <label className="flex items-center justify-between gap-4 text-white/90 mb-6">
+              <span className="font-bold text-lg">File Format</span>
+              <select
+                value={format}
+                onChange={event => loadTable(sourceText, event.target.value as ImportFormat)}
+                className="w-56 bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white"
+              >
+                {IMPORT_FORMATS.map(option => (
+                  <option key={option.format} value={option.format} className="text-gray-900">{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <h4 className="font-bold text-white mb-4 text-lg">Column Mapping</h4>
+            <div className="space-y-3">
+              {REVIEW_FIELDS.map(({ field, label, required }) => (
+                <label key={field} className="flex items-center justify-between gap-4 text-white/90">
+                  <span className="font-medium">
+                    {label}
+                    {required && <span className="text-pink-400"> *</span>}
+                  </span>
+                  <select
+                    value={mapping[field] ?? ''}
+                    onChange={event => updateMapping(field, event.target.value)}
+                    className="w-56 bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white"
+                  >
+                    <option value="" className="text-gray-900">— Not mapped —</option>
+                    {table.headers.map(header => (
+                      <option key={header} value={header} className="text-gray-900">{header}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="font-bold text-white mb-4 text-lg">Validation</h4>
+            <div className="flex items-center gap-3 text-green-300 mb-4">
+              <CheckCircle className="w-5 h-5" />
+              {mapped.reviews.length} reviews ready to analyze
+            </div>
+            {mapped.issues.length > 0 && (
+              <div className="max-h-64 overflow-y-auto space-y-2 pr-2">
+                {mapped.issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                  <div key={index} className="flex items-start gap-2 text-sm text-orange-200 bg-orange-500/10 rounded-xl px-3 py-2">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                    <span><strong>Line {issue.line}:</strong> {issue.message}</span>
+                  </div>
+                ))}
+                {mapped.issues.length > MAX_LISTED_ISSUES && (
+                  <p className="text-white/60 text-sm">…and {mapped.issues.length - MAX_LISTED_ISSUES} more</p>
+                )}
+              </div>
+            )}
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              disabled={!mapping.Review_Text || mapped.reviews.length === 0}
+              onClick={() => onImport({ name: fileName ?? 'Uploaded reviews', reviews: mapped.reviews })}
+              className="mt-6 flex items-center gap-3 px-8 py-3 bg-gradient-to-r from-pink-500 via-purple-500 to-blue-500 text-white rounded-2xl disabled:opacity-50 shadow-xl font-semibold"
+            >
+              <CheckCircle className="w-5 h-5" />
+              Analyze {mapped.reviews.length} Reviews
+            </motion.button>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default DataImport;
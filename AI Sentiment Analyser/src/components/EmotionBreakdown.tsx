@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Filter, Smile } from 'lucide-react';
+import { Emotion, EmotionSummary } from '../types';
+import { EMOTION_COLORS } from '../lib/emotions';
+
+interface EmotionBreakdownProps {
+  emotions: EmotionSummary[];
+  /** Narrows the Review Explorer to reviews where the emotion dominates. */
+  onShowReviews: (emotion: Emotion) => void;
+}
+
+const EmotionBreakdown: React.FC<EmotionBreakdownProps> = ({ emotions, onShowReviews }) => {
+  const [selected, setSelected] = useState<Emotion | null>(null);
+  const expressed = emotions.filter(summary => summary.reviews > 0);
+  const active = expressed.find(summary => summary.emotion === selected)
+    ?? [...expressed].sort((a, b) => b.dominant - a.dominant)[0];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 50 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.85, duration: 0.8 }}
+      className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20"
+    >
+      <h3 className="text-2xl font-bold mb-8 flex items-center gap-3 text-white">
+        <Smile className="w-7 h-7 text-yellow-400" />
+        Emotions
+      </h3>
+
+      {expressed.length === 0 ? (
+        <p className="text-white/70">No review matched the emotion lexicon.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={emotions}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+                <XAxis dataKey="emotion" stroke="white" />
+                <YAxis stroke="white" allowDecimals={false} />
+                <Tooltip
+                  formatter={(value: number, name: string) => [value, name === 'dominant' ? 'Dominant in' : 'Expressed in']}
+                  contentStyle={{
+                    backgroundColor: 'rgba(255,255,255,0.9)',
+                    border: 'none',
+                    borderRadius: '12px',
+                    boxShadow: '0 10px 30px rgba(0,0,0,0.2)'
+                  }}
+                />
+                <Bar dataKey="reviews" radius={[4, 4, 0, 0]} fillOpacity={0.35} onClick={(data: EmotionSummary) => setSelected(data.emotion)}>
+                  {emotions.map(summary => <Cell key={summary.emotion} fill={EMOTION_COLORS[summary.emotion]} cursor="pointer" />)}
+                </Bar>
+                <Bar dataKey="dominant" radius={[4, 4, 0, 0]} onClick={(data: EmotionSummary) => setSelected(data.emotion)}>
+                  {emotions.map(summary => <Cell key={summary.emotion} fill={EMOTION_COLORS[summary.emotion]} cursor="pointer" />)}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+            <p className="text-xs text-white/50 text-center">Faded: reviews expressing the emotion · solid: reviews where it dominates</p>
+          </div>
+
+          <div>
+            <div className="flex flex-wrap gap-2 mb-6">
+              {emotions.map(summary => (
+                <button
+                  key={summary.emotion}
+                  disabled={summary.reviews === 0}
+                  onClick={() => setSelected(summary.emotion)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium capitalize transition-all duration-300 disabled:opacity-40 ${
+                    active?.emotion === summary.emotion ? 'text-gray-900' : 'bg-white/10 text-white/70 hover:text-white'
+                  }`}
+                  style={active?.emotion === summary.emotion ? { backgroundColor: EMOTION_COLORS[summary.emotion] } : undefined}
+                >
+                  {summary.emotion} <span className="opacity-70">({summary.dominant})</span>
+                </button>
+              ))}
+            </div>
+
+            {active && (
+              <>
+                <div className="flex flex-wrap items-center gap-4 text-sm text-white/80 mb-4">
+                  <span>{active.reviews} reviews express it</span>
+                  <span>{active.dominant} dominated ({active.percentage}%)</span>
+                  <span>Avg intensity {active.average_intensity}</span>
+                  <button
+                    disabled={active.dominant === 0}
+                    onClick={() => onShowReviews(active.emotion)}
+                    className="flex items-center gap-1 px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-white disabled:opacity-40"
+                  >
+                    <Filter className="w-4 h-4" />
+                    Show in Review Explorer
+                  </button>
+                </div>
+                <div className="space-y-3 max-h-64 overflow-y-auto pr-2">
+                  {active.examples.map(example => (
+                    <div key={example.review_id} className="bg-white/10 rounded-xl p-4 text-sm">
+                      <div className="flex gap-2 mb-1 text-xs">
+                        <span className="font-mono font-bold text-white">{example.review_id}</span>
+                        <span style={{ color: EMOTION_COLORS[active.emotion] }}>{example.intensity}</span>
+                      </div>
+                      <p className="text-white/90 leading-relaxed">{example.text}</p>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default EmotionBreakdown;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Sparkles, Zap } from 'lucide-react';
+import { useAnalysis } from '../lib/analysisContext';
+
+interface EmptyStateProps {
+  icon: React.ReactNode;
+  title: string;
+  children: React.ReactNode;
+}
+
+/** What a page shows before any analysis has run or a saved run has been opened. */
+const EmptyState: React.FC<EmptyStateProps> = ({ icon, title, children }) => {
+  const { runAnalysis } = useAnalysis();
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.8 }}
+      animate={{ opacity: 1, scale: 1 }}
+      transition={{ duration: 1, type: "spring", bounce: 0.4 }}
+      className="text-center py-20"
+    >
+      <motion.div
+        animate={{
+          rotate: [0, 360],
+          scale: [1, 1.2, 1]
+        }}
+        transition={{
+          rotate: { duration: 20, repeat: Infinity, ease: "linear" },
+          scale: { duration: 3, repeat: Infinity }
+        }}
+        className="mx-auto w-40 h-40 bg-gradient-to-br from-pink-400 via-purple-500 to-blue-500 rounded-full flex items-center justify-center mb-12 shadow-2xl"
+      >
+        {icon}
+      </motion.div>
+      <motion.h2
+        initial={{ y: 20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        transition={{ delay: 0.3 }}
+        className="text-4xl font-bold text-white mb-6"
+      >
+        {title}
+      </motion.h2>
+      <motion.p
+        initial={{ y: 20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        transition={{ delay: 0.5 }}
+        className="text-white/80 max-w-2xl mx-auto mb-12 text-xl leading-relaxed"
+      >
+        {children}
+      </motion.p>
+      <motion.button
+        initial={{ y: 20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        transition={{ delay: 0.7 }}
+        whileHover={{
+          scale: 1.05,
+          boxShadow: "0 20px 40px rgba(0,0,0,0.3)",
+          background: "linear-gradient(135deg, #FF6B9D 0%, #C44569 50%, #F8B500 100%)"
+        }}
+        whileTap={{ scale: 0.95 }}
+        onClick={runAnalysis}
+        className="inline-flex items-center gap-4 px-12 py-6 bg-gradient-to-r from-pink-500 via-purple-500 to-blue-500 text-white rounded-2xl shadow-2xl text-xl font-bold transition-all duration-300"
+      >
+        <Zap className="w-6 h-6" />
+        Start the Magic
+        <Sparkles className="w-6 h-6" />
+      </motion.button>
+    </motion.div>
+  );
+};
+
+export default EmptyState;
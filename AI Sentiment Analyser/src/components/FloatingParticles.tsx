@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+
+const PARTICLE_COUNT = 20;
+
+const FloatingParticles: React.FC = () => {
+  // Drawn once so the particles keep drifting on the same paths when the page re-renders
+  const [particles] = useState(() =>
+    Array.from({ length: PARTICLE_COUNT }, () => ({
+      x: Math.random() * 100 - 50,
+      y: Math.random() * 100 - 50,
+      scale: Math.random() + 0.5,
+      duration: Math.random() * 10 + 10,
+      left: Math.random() * 100,
+      top: Math.random() * 100
+    }))
+  );
+
+  return (
+    <div className="fixed inset-0 pointer-events-none overflow-hidden">
+      {particles.map((particle, i) => (
+        <motion.div
+          key={i}
+          className="absolute w-2 h-2 bg-gradient-to-r from-purple-400 to-pink-400 rounded-full opacity-20"
+          animate={{
+            x: [0, particle.x],
+            y: [0, particle.y],
+            scale: [1, particle.scale, 1],
+            opacity: [0.2, 0.5, 0.2]
+          }}
+          transition={{
+            duration: particle.duration,
+            repeat: Infinity,
+            repeatType: "reverse"
+          }}
+          style={{
+            left: `${particle.left}%`,
+            top: `${particle.top}%`,
+          }}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default FloatingParticles;
@@ -0,0 +1,187 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ClipboardCheck, Download, Keyboard, SkipForward, Undo2, X } from 'lucide-react';
+import { HumanLabels, ScoredReview, SentimentLabel } from '../types';
+import { LABELS, SENTIMENT_COLORS } from '../lib/metrics';
+import { DEFAULT_THRESHOLDS, expectedLabel } from '../lib/evaluation';
+import { REVIEW_FLAG_LABELS, reviewFlags } from '../lib/reviewQueue';
+import { downloadFile, slugify } from '../lib/download';
+import {
+  GOLD_MIME_TYPES, GoldFormat, LABEL_SHORTCUTS, SKIP_KEY, UNDO_KEY, disagreesWithRating, exportGoldDataset, labelingQueue
+} from '../lib/labeling';
+
+interface LabelingQueueProps {
+  reviews: ScoredReview[];
+  labels: HumanLabels;
+  dataset: string;
+  /** Whether dashboard metrics count verified reviews by their human label. */
+  preferHuman: boolean;
+  onPreferHumanChange: (preferHuman: boolean) => void;
+  /** Records a verdict, or removes it when `label` is null. */
+  onLabel: (reviewId: string, label: SentimentLabel | null) => void;
+  onClose: () => void;
+}
+
+const shortcutFor = (label: SentimentLabel) =>
+  Object.keys(LABEL_SHORTCUTS).find(key => LABEL_SHORTCUTS[key] === label);
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable);
+
+const LabelingQueue: React.FC<LabelingQueueProps> = ({
+  reviews, labels, dataset, preferHuman, onPreferHumanChange, onLabel, onClose
+}) => {
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [history, setHistory] = useState<string[]>([]);
+
+  const queue = useMemo(() => labelingQueue(reviews, labels), [reviews, labels]);
+  // Skipped reviews go to the back of the queue and come round again once the rest are done
+  const ordered = useMemo(() => {
+    const byId = new Map(queue.map(review => [review.Review_ID, review]));
+    return [
+      ...queue.filter(review => !skipped.includes(review.Review_ID)),
+      ...skipped.flatMap(id => byId.get(id) ?? [])
+    ];
+  }, [queue, skipped]);
+  const current = ordered[0];
+  const verified = reviews.filter(review => labels[review.Review_ID]).length;
+
+  const label = (value: SentimentLabel) => {
+    if (!current) return;
+    onLabel(current.Review_ID, value);
+    setHistory(previous => [...previous, current.Review_ID]);
+    setSkipped(previous => previous.filter(id => id !== current.Review_ID));
+  };
+
+  const skip = () => {
+    if (current) setSkipped(previous => [...previous.filter(id => id !== current.Review_ID), current.Review_ID]);
+  };
+
+  const undo = () => {
+    const last = history[history.length - 1];
+    if (last === undefined) return;
+    onLabel(last, null);
+    setHistory(previous => previous.slice(0, -1));
+  };
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isTyping(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (LABEL_SHORTCUTS[key]) label(LABEL_SHORTCUTS[key]);
+      else if (key === SKIP_KEY) skip();
+      else if (key === UNDO_KEY) undo();
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const exportGold = (format: GoldFormat) =>
+    downloadFile(exportGoldDataset(reviews, labels, format), `gold_${slugify(dataset)}.${format}`, GOLD_MIME_TYPES[format]);
+
+  const buttonClass = 'flex items-center gap-2 px-4 py-2 rounded-xl bg-white/10 text-white/90 hover:bg-white/20 text-sm font-medium disabled:opacity-40';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20 mb-12"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-2xl font-bold flex items-center gap-3 text-white">
+          <ClipboardCheck className="w-7 h-7 text-green-400" />
+          Label Reviews
+          <span className="text-sm font-medium text-white/60">{verified} of {reviews.length} verified</span>
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white/10 text-white/90 text-sm font-medium cursor-pointer">
+            <input type="checkbox" checked={preferHuman} onChange={event => onPreferHumanChange(event.target.checked)} />
+            Use human labels in metrics
+          </label>
+          {(['csv', 'jsonl'] as const).map(format => (
+            <button key={format} onClick={() => exportGold(format)} disabled={verified === 0} className={buttonClass}>
+              <Download className="w-4 h-4" />
+              Gold {format.toUpperCase()}
+            </button>
+          ))}
+          <button onClick={onClose} className="p-2 rounded-xl text-white/70 hover:text-white hover:bg-white/10">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="w-full bg-white/10 rounded-full h-2 overflow-hidden mb-6">
+        <div
+          className="h-full rounded-full bg-gradient-to-r from-green-400 to-blue-500"
+          style={{ width: `${reviews.length ? (verified / reviews.length) * 100 : 0}%` }}
+        />
+      </div>
+
+      {!current ? (
+        <p className="text-white/70">Every scored review has a human label.</p>
+      ) : (
+        <>
+          <div className="bg-white/10 rounded-2xl p-6 border border-white/20 mb-6">
+            <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+              <span className="font-mono font-bold text-white">{current.Review_ID}</span>
+              <span
+                className="px-3 py-1 rounded-full text-xs font-semibold text-white"
+                style={{ backgroundColor: SENTIMENT_COLORS[current.textblob_label] }}
+              >
+                Model: {current.textblob_label}
+              </span>
+              {current.confidence !== undefined && (
+                <span className="text-white/70 text-xs">{Math.round(current.confidence * 100)}% confident</span>
+              )}
+              {disagreesWithRating(current) && current.Rating !== undefined && (
+                <span className="px-2 py-0.5 rounded-full text-xs bg-yellow-500/30 text-yellow-100">
+                  {current.Rating}★ suggests {expectedLabel(current.Rating, DEFAULT_THRESHOLDS)}
+                </span>
+              )}
+              {reviewFlags(current).map(flag => (
+                <span key={flag} className="px-2 py-0.5 rounded-full text-xs bg-amber-500/30 text-amber-100">
+                  {REVIEW_FLAG_LABELS[flag]}
+                </span>
+              ))}
+              {current.Product_Category && <span className="text-white/60 text-xs">{current.Product_Category}</span>}
+            </div>
+            <p className="text-white text-lg leading-relaxed">{current.Review_Text}</p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            {LABELS.map(value => (
+              <button
+                key={value}
+                onClick={() => label(value)}
+                className="flex items-center gap-2 px-6 py-3 rounded-xl text-white font-semibold hover:opacity-90"
+                style={{ backgroundColor: SENTIMENT_COLORS[value] }}
+              >
+                {value}
+                <kbd className="px-1.5 py-0.5 rounded bg-white/30 text-xs">{shortcutFor(value)}</kbd>
+              </button>
+            ))}
+            <button onClick={skip} className={buttonClass}>
+              <SkipForward className="w-4 h-4" />
+              Skip
+              <kbd className="px-1.5 py-0.5 rounded bg-white/20 text-xs">{SKIP_KEY.toUpperCase()}</kbd>
+            </button>
+            <button onClick={undo} disabled={history.length === 0} className={buttonClass}>
+              <Undo2 className="w-4 h-4" />
+              Undo
+              <kbd className="px-1.5 py-0.5 rounded bg-white/20 text-xs">{UNDO_KEY.toUpperCase()}</kbd>
+            </button>
+            <span className="ml-auto flex items-center gap-2 text-xs text-white/60">
+              <Keyboard className="w-4 h-4" />
+              {queue.length} left · rating disagreements and low-confidence reviews come first
+            </span>
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+};
+
+export default LabelingQueue;
@@ -0,0 +1,99 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { BarChart, Bar, Cell, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { AlertTriangle, Languages } from 'lucide-react';
+import { LanguageSummary } from '../types';
+import { supportedLanguages } from '../lib/language';
+
+const SUPPORTED_COLOR = '#A78BFA';
+const UNSUPPORTED_COLOR = '#9CA3AF';
+
+const LanguageBreakdown: React.FC<{ languages: LanguageSummary[] }> = ({ languages }) => {
+  const unsupported = languages.filter(language => !language.supported);
+  const flagged = unsupported.reduce((sum, language) => sum + language.reviews, 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 50 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.85, duration: 0.8 }}
+      className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20"
+    >
+      <h3 className="text-2xl font-bold mb-8 flex items-center gap-3 text-white">
+        <Languages className="w-7 h-7 text-violet-400" />
+        Language Breakdown
+      </h3>
+
+      {flagged > 0 && (
+        <div className="flex items-start gap-3 mb-6 p-4 rounded-2xl bg-yellow-500/20 border border-yellow-400/40 text-yellow-100 text-sm">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0 text-yellow-300" />
+          <p>
+            {flagged} review{flagged === 1 ? ' is' : 's are'} in {unsupported.map(language => language.name).join(', ')},
+            which {unsupported.length === 1 ? 'has' : 'have'} no sentiment lexicon. They are flagged in the Review Explorer
+            and left out of every sentiment metric instead of counting as neutral.
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div style={{ height: Math.max(160, languages.length * 48) }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={languages} layout="vertical" margin={{ left: 20 }}>
+              <XAxis type="number" stroke="white" allowDecimals={false} />
+              <YAxis type="category" dataKey="name" stroke="white" width={90} />
+              <Tooltip
+                formatter={(value: number) => [value, 'Reviews']}
+                contentStyle={{
+                  backgroundColor: 'rgba(255,255,255,0.9)',
+                  border: 'none',
+                  borderRadius: '12px',
+                  boxShadow: '0 10px 30px rgba(0,0,0,0.2)'
+                }}
+              />
+              <Bar dataKey="reviews" radius={[0, 4, 4, 0]}>
+                {languages.map(language => (
+                  <Cell key={language.language} fill={language.supported ? SUPPORTED_COLOR : UNSUPPORTED_COLOR} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div>
+          <table className="w-full text-sm text-white/90">
+            <thead className="text-white/70 text-xs uppercase tracking-wide border-b border-white/20">
+              <tr>
+                <th className="text-left py-2 pr-4">Language</th>
+                <th className="text-right py-2 pr-4">Reviews</th>
+                <th className="text-right py-2 pr-4">Share</th>
+                <th className="text-right py-2 pr-4">Satisfaction</th>
+                <th className="text-right py-2">VADER</th>
+              </tr>
+            </thead>
+            <tbody>
+              {languages.map(language => (
+                <tr key={language.language} className="border-b border-white/10">
+                  <td className="py-2 pr-4 font-medium">
+                    {language.name}
+                    {!language.supported && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-gray-500/40 text-white/80">Unsupported</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 text-right">{language.reviews}</td>
+                  <td className="py-2 pr-4 text-right">{language.percentage}%</td>
+                  <td className="py-2 pr-4 text-right">{language.satisfaction_score ?? '—'}</td>
+                  <td className="py-2 text-right">{language.average_compound ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-white/50 mt-4">
+            Scored languages: {supportedLanguages().map(language => language.name).join(', ')}. Detection runs offline from script and common words.
+          </p>
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default LanguageBreakdown;
@@ -0,0 +1,292 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { BookOpen, Download, Plus, RotateCcw, Trash2, Upload, X } from 'lucide-react';
+import { CustomLexicon } from '../types';
+import { LEXICON } from '../lib/lexicon';
+import { LabelChange } from '../lib/compare';
+import { downloadFile, slugify } from '../lib/download';
+import {
+  MAX_VALENCE, normalizeTerm, parseLexiconJson, removeTerm, resetTerm, resolveLexicon, setTerm, updateLexicon
+} from '../lib/customLexicon';
+
+const MAX_LISTED_CHANGES = 50;
+
+interface LexiconEditorProps {
+  lexicon: CustomLexicon;
+  categories: string[];
+  /** Label changes caused by the most recent edit; null until something was re-scored. */
+  changes: LabelChange[] | null;
+  hasResults: boolean;
+  onChange: (lexicon: CustomLexicon) => void;
+  onClose: () => void;
+}
+
+type TermState = 'built-in' | 'added' | 'changed' | 'removed';
+
+const STATE_STYLES: Record<TermState, string> = {
+  'built-in': 'text-white/50',
+  added: 'text-green-300',
+  changed: 'text-yellow-300',
+  removed: 'text-red-300'
+};
+
+const WeightInput: React.FC<{ value: number; onCommit: (value: number) => void }> = ({ value, onCommit }) => {
+  const [draft, setDraft] = useState(String(value));
+  const commit = () => {
+    const parsed = Number(draft);
+    if (draft.trim() !== '' && Number.isFinite(parsed) && parsed !== value) onCommit(parsed);
+    else setDraft(String(value));
+  };
+  return (
+    <input
+      type="number"
+      step={0.1}
+      min={-MAX_VALENCE}
+      max={MAX_VALENCE}
+      value={draft}
+      onChange={event => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={event => { if (event.key === 'Enter') commit(); }}
+      className="w-20 bg-white/10 border border-white/20 rounded-lg px-2 py-1 text-white"
+    />
+  );
+};
+
+const LexiconEditor: React.FC<LexiconEditorProps> = ({ lexicon, categories, changes, hasResults, onChange, onClose }) => {
+  const [scope, setScope] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [newTerm, setNewTerm] = useState('');
+  const [newWeight, setNewWeight] = useState('1');
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const scopeOptions = useMemo(
+    () => [...new Set([...categories, ...Object.keys(lexicon.categories)])].sort(),
+    [categories, lexicon.categories]
+  );
+
+  const rows = useMemo(() => {
+    const inherited = scope === null ? LEXICON : resolveLexicon(lexicon);
+    const effective = resolveLexicon(lexicon, scope ?? undefined);
+    const query = search.trim().toLowerCase();
+    return [...new Set([...Object.keys(inherited), ...Object.keys(effective)])]
+      .filter(term => term.includes(query))
+      .map(term => {
+        const state: TermState = effective[term] === undefined ? 'removed'
+          : inherited[term] === undefined ? 'added'
+            : inherited[term] !== effective[term] ? 'changed'
+              : 'built-in';
+        return { term, inherited: inherited[term], weight: effective[term], state };
+      })
+      .sort((a, b) => Number(a.state === 'built-in') - Number(b.state === 'built-in') || a.term.localeCompare(b.term));
+  }, [lexicon, scope, search]);
+
+  const edit = (update: Parameters<typeof updateLexicon>[2]) => {
+    setError(null);
+    onChange(updateLexicon(lexicon, scope, update));
+  };
+
+  const addTerm = () => {
+    const term = normalizeTerm(newTerm);
+    const weight = Number(newWeight);
+    if (!term) return setError('Terms must be a single word (letters only)');
+    if (!Number.isFinite(weight)) return setError('Weight must be a number');
+    edit(overrides => setTerm(overrides, term, weight));
+    setNewTerm('');
+  };
+
+  const exportLexicon = () =>
+    downloadFile(JSON.stringify(lexicon, null, 2), `${slugify(lexicon.name)}.json`, 'application/json');
+
+  const importLexicon = async (file: File) => {
+    try {
+      const imported = parseLexiconJson(await file.text());
+      setError(null);
+      onChange({ ...imported, version: lexicon.version + 1, updated_at: new Date().toISOString() });
+    } catch (importError) {
+      setError(`${file.name}: ${(importError as Error).message}`);
+    }
+  };
+
+  const buttonClass = 'flex items-center gap-2 px-4 py-2 rounded-xl bg-white/10 text-white/90 hover:bg-white/20 text-sm font-medium';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20 mb-12"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-2xl font-bold flex items-center gap-3 text-white">
+          <BookOpen className="w-7 h-7 text-purple-400" />
+          Lexicon
+          <span className="text-sm font-medium text-white/60">v{lexicon.version}</span>
+        </h3>
+        <div className="flex items-center gap-2">
+          <button onClick={exportLexicon} className={buttonClass}>
+            <Download className="w-4 h-4" />
+            Export JSON
+          </button>
+          <button onClick={() => inputRef.current?.click()} className={buttonClass}>
+            <Upload className="w-4 h-4" />
+            Import JSON
+          </button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={event => {
+              const file = event.target.files?.[0];
+              if (file) importLexicon(file);
+              event.target.value = '';
+            }}
+          />
+          <button onClick={onClose} className="p-2 rounded-xl text-white/70 hover:text-white hover:bg-white/10">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div>
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <select
+              value={scope ?? ''}
+              onChange={event => setScope(event.target.value || null)}
+              className="bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white"
+            >
+              <option value="" className="text-gray-900">All categories</option>
+              {scopeOptions.map(category => (
+                <option key={category} value={category} className="text-gray-900">
+                  {category}{lexicon.categories[category] ? ' •' : ''}
+                </option>
+              ))}
+            </select>
+            <input
+              value={search}
+              onChange={event => setSearch(event.target.value)}
+              placeholder="Search terms"
+              className="flex-1 min-w-40 bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white placeholder-white/50"
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <input
+              value={newTerm}
+              onChange={event => setNewTerm(event.target.value)}
+              onKeyDown={event => { if (event.key === 'Enter') addTerm(); }}
+              placeholder="New term"
+              className="flex-1 min-w-40 bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white placeholder-white/50"
+            />
+            <input
+              type="number"
+              step={0.1}
+              min={-MAX_VALENCE}
+              max={MAX_VALENCE}
+              value={newWeight}
+              onChange={event => setNewWeight(event.target.value)}
+              className="w-24 bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white"
+            />
+            <button onClick={addTerm} className={buttonClass}>
+              <Plus className="w-4 h-4" />
+              {scope === null ? 'Add' : `Add for ${scope}`}
+            </button>
+          </div>
+          {error && <p className="text-sm text-orange-200 bg-orange-500/10 rounded-xl px-3 py-2 mb-4">{error}</p>}
+
+          <div className="max-h-96 overflow-y-auto pr-2">
+            <table className="w-full text-sm text-white/90">
+              <thead className="sticky top-0 bg-purple-900/80">
+                <tr className="text-left text-xs uppercase tracking-wide text-white/60 border-b border-white/20">
+                  <th className="py-2 pr-4">Term</th>
+                  <th className="py-2 pr-4">{scope === null ? 'Built-in' : 'Global'}</th>
+                  <th className="py-2 pr-4">Weight</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.term} className="border-b border-white/10">
+                    <td className="py-2 pr-4">
+                      <span className="font-semibold">{row.term}</span>
+                      <span className={`ml-2 text-xs ${STATE_STYLES[row.state]}`}>{row.state}</span>
+                    </td>
+                    <td className="py-2 pr-4 text-white/60">{row.inherited ?? '—'}</td>
+                    <td className="py-2 pr-4">
+                      {row.weight === undefined ? '—' : (
+                        <WeightInput
+                          key={`${scope}-${row.term}-${row.weight}`}
+                          value={row.weight}
+                          onCommit={value => edit(overrides => setTerm(overrides, row.term, value))}
+                        />
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      {row.state !== 'built-in' && row.inherited !== undefined && (
+                        <button
+                          title="Restore inherited weight"
+                          onClick={() => edit(overrides => resetTerm(overrides, row.term))}
+                          className="p-1 rounded-lg text-white/60 hover:text-white hover:bg-white/10"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </button>
+                      )}
+                      {row.state !== 'removed' && (
+                        <button
+                          title="Remove term"
+                          onClick={() => edit(overrides => row.inherited === undefined ? resetTerm(overrides, row.term) : removeTerm(overrides, row.term))}
+                          className="p-1 rounded-lg text-white/60 hover:text-red-300 hover:bg-white/10"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div>
+          <h4 className="font-bold text-white mb-4 text-lg">Label Changes</h4>
+          {!hasResults ? (
+            <p className="text-white/70 text-sm">Run an analysis to see which reviews change label as you edit.</p>
+          ) : changes === null ? (
+            <p className="text-white/70 text-sm">Every edit re-scores the loaded dataset and lists the reviews whose label flipped.</p>
+          ) : changes.length === 0 ? (
+            <p className="text-white/70 text-sm">The last edit did not change any labels.</p>
+          ) : (
+            <>
+              <p className="text-white/80 text-sm mb-4">The last edit changed the label of {changes.length} reviews.</p>
+              <div className="space-y-3 max-h-96 overflow-y-auto pr-2">
+                {changes.slice(0, MAX_LISTED_CHANGES).map(change => (
+                  <div key={change.review_id} className="bg-white/10 rounded-xl p-4 text-sm">
+                    <div className="flex flex-wrap gap-3 mb-2 text-xs">
+                      <span className="font-mono font-bold text-white">{change.review_id}</span>
+                      {change.before.textblob !== change.after.textblob && (
+                        <span className="text-pink-300">TextBlob {change.before.textblob} → {change.after.textblob}</span>
+                      )}
+                      {change.before.vader !== change.after.vader && (
+                        <span className="text-cyan-300">VADER {change.before.vader} → {change.after.vader}</span>
+                      )}
+                      <span className="text-white/60">polarity {change.before.polarity} → {change.after.polarity}</span>
+                    </div>
+                    <p className="text-white/90 leading-relaxed">{change.text}</p>
+                  </div>
+                ))}
+                {changes.length > MAX_LISTED_CHANGES && (
+                  <p className="text-white/60 text-sm">…and {changes.length - MAX_LISTED_CHANGES} more</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default LexiconEditor;
@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Target } from 'lucide-react';
+import { ScoredReview } from '../types';
+import { LABELS, SENTIMENT_COLORS } from '../lib/metrics';
+import {
+  DEFAULT_THRESHOLDS, RatingThresholds, availableMethods, evaluateMethod, mostDisagreeing
+} from '../lib/evaluation';
+
+const RATING_OPTIONS = [1, 2, 3, 4, 5];
+
+const ModelEvaluation: React.FC<{ reviews: ScoredReview[] }> = ({ reviews }) => {
+  const [thresholds, setThresholds] = useState<RatingThresholds>(DEFAULT_THRESHOLDS);
+  const methods = useMemo(() => availableMethods(reviews), [reviews]);
+  const [methodName, setMethodName] = useState(methods[0].method);
+
+  const method = methods.find(m => m.method === methodName) ?? methods[0];
+  const evaluations = useMemo(
+    () => methods.map(m => evaluateMethod(reviews, m, thresholds)),
+    [reviews, methods, thresholds]
+  );
+  const evaluation = evaluations.find(e => e.method === method.method) ?? evaluations[0];
+  const disagreements = useMemo(() => mostDisagreeing(reviews, method, thresholds), [reviews, method, thresholds]);
+  const maxCell = Math.max(1, ...evaluation.confusion.flat());
+
+  const selectClass = 'bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 50 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.85, duration: 0.8 }}
+      className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+        <h3 className="text-2xl font-bold flex items-center gap-3 text-white">
+          <Target className="w-7 h-7 text-orange-400" />
+          Rating Agreement
+        </h3>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-white/80">
+          <label className="flex items-center gap-2">
+            Negative ≤
+            <select
+              value={thresholds.negativeMax}
+              onChange={event => setThresholds(t => ({ ...t, negativeMax: Number(event.target.value) }))}
+              className={selectClass}
+            >
+              {RATING_OPTIONS.filter(r => r < thresholds.positiveMin).map(r => (
+                <option key={r} value={r} className="text-gray-900">{r}★</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Positive ≥
+            <select
+              value={thresholds.positiveMin}
+              onChange={event => setThresholds(t => ({ ...t, positiveMin: Number(event.target.value) }))}
+              className={selectClass}
+            >
+              {RATING_OPTIONS.filter(r => r > thresholds.negativeMax).map(r => (
+                <option key={r} value={r} className="text-gray-900">{r}★</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {evaluation.support === 0 ? (
+        <p className="text-white/70">None of the analyzed reviews have a Rating or a human label to compare against.</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto mb-8">
+            <table className="w-full text-sm text-white/90">
+              <thead>
+                <tr className="text-left text-xs uppercase tracking-wide text-white/60 border-b border-white/20">
+                  <th className="py-2 pr-4">Method</th>
+                  <th className="py-2 pr-4">Accuracy</th>
+                  <th className="py-2 pr-4">Macro F1</th>
+                  <th className="py-2 pr-4">Cohen's κ</th>
+                  {LABELS.map(label => (
+                    <th key={label} className="py-2 pr-4">{label} P / R / F1</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {evaluations.map(e => (
+                  <tr
+                    key={e.method}
+                    onClick={() => setMethodName(e.method)}
+                    className={`border-b border-white/10 cursor-pointer hover:bg-white/10 ${e.method === method.method ? 'bg-white/15' : ''}`}
+                  >
+                    <td className="py-2 pr-4 font-semibold">{e.method}</td>
+                    <td className="py-2 pr-4">{(e.accuracy * 100).toFixed(1)}%</td>
+                    <td className="py-2 pr-4">{e.macro_f1}</td>
+                    <td className="py-2 pr-4">{e.kappa}</td>
+                    {LABELS.map(label => (
+                      <td key={label} className="py-2 pr-4">
+                        {e.per_class[label].precision} / {e.per_class[label].recall} / {e.per_class[label].f1}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-white/50 mt-2">
+              {evaluation.support} reviews with a reference label
+              {evaluation.human_labeled > 0 && ` (${evaluation.human_labeled} human-verified, used instead of their rating)`}
+              {' '}· click a method to inspect it
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div>
+              <h4 className="font-bold text-white mb-4 text-lg">{method.method} Confusion Matrix</h4>
+              <div className="grid grid-cols-4 gap-1 text-sm">
+                <div className="text-xs text-white/60 flex items-end">
+                  {evaluation.human_labeled > 0 ? 'Reference' : 'Rating'} ↓ / Predicted →
+                </div>
+                {LABELS.map(label => (
+                  <div key={label} className="text-center font-semibold text-white/80">{label}</div>
+                ))}
+                {LABELS.map((expected, i) => (
+                  <React.Fragment key={expected}>
+                    <div className="font-semibold text-white/80 flex items-center">{expected}</div>
+                    {LABELS.map((predicted, j) => (
+                      <div
+                        key={predicted}
+                        className="h-16 rounded-lg flex items-center justify-center text-lg font-bold text-white"
+                        style={{
+                          backgroundColor: i === j ? SENTIMENT_COLORS.Neutral : SENTIMENT_COLORS.Negative,
+                          opacity: 0.25 + (evaluation.confusion[i][j] / maxCell) * 0.75
+                        }}
+                      >
+                        {evaluation.confusion[i][j]}
+                      </div>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h4 className="font-bold text-white mb-4 text-lg">Most Disagreeing Reviews</h4>
+              {disagreements.length === 0 ? (
+                <p className="text-white/70 text-sm">{method.method} agrees with every rating.</p>
+              ) : (
+                <div className="space-y-3 max-h-80 overflow-y-auto pr-2">
+                  {disagreements.map(({ review, expected, predicted, gap }) => (
+                    <div key={review.Review_ID} className="bg-white/10 rounded-xl p-4 text-sm">
+                      <div className="flex flex-wrap gap-2 mb-2 text-xs">
+                        <span className="font-mono font-bold text-white">{review.Review_ID}</span>
+                        <span className="text-yellow-300">
+                          {review.human_label ? 'Human label' : `${review.Rating}★ → expected`} {expected}
+                        </span>
+                        <span className="text-pink-300">predicted {predicted}</span>
+                        <span className="text-white/60">gap {gap}</span>
+                      </div>
+                      <p className="text-white/90 leading-relaxed">{review.Review_Text}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+};
+
+export default ModelEvaluation;
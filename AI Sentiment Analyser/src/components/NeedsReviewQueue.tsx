@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertCircle } from 'lucide-react';
+import { ScoredReview } from '../types';
+import { SENTIMENT_COLORS } from '../lib/metrics';
+import { LOW_CONFIDENCE, REVIEW_FLAGS, REVIEW_FLAG_LABELS, ReviewFlag, needsReview, reviewFlags } from '../lib/reviewQueue';
+
+const PAGE_SIZE = 10;
+
+const FLAG_STYLES: Record<ReviewFlag, string> = {
+  low_confidence: 'bg-gray-500/40 text-white/90',
+  mixed: 'bg-amber-500/30 text-amber-100',
+  sarcasm: 'bg-fuchsia-500/30 text-fuchsia-100'
+};
+
+const NeedsReviewQueue: React.FC<{ reviews: ScoredReview[] }> = ({ reviews }) => {
+  const [flagFilter, setFlagFilter] = useState<ReviewFlag | 'All'>('All');
+  const [shown, setShown] = useState(PAGE_SIZE);
+
+  const queue = useMemo(() => needsReview(reviews), [reviews]);
+  const counts = useMemo(
+    () => Object.fromEntries(REVIEW_FLAGS.map(flag => [flag, queue.filter(review => reviewFlags(review).includes(flag)).length])),
+    [queue]
+  );
+  const filtered = flagFilter === 'All' ? queue : queue.filter(review => reviewFlags(review).includes(flagFilter));
+
+  const selectFlag = (flag: ReviewFlag | 'All') => {
+    setFlagFilter(flag);
+    setShown(PAGE_SIZE);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 50 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.85, duration: 0.8 }}
+      className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20"
+    >
+      <h3 className="text-2xl font-bold mb-2 flex items-center gap-3 text-white">
+        <AlertCircle className="w-7 h-7 text-amber-400" />
+        Needs Review
+      </h3>
+      <p className="text-white/70 text-sm mb-6">
+        {queue.length} of {reviews.length} labels are doubtful: confidence under {Math.round(LOW_CONFIDENCE * 100)}%,
+        praise and criticism in the same review, or praise that reads as sarcasm.
+      </p>
+
+      {queue.length === 0 ? (
+        <p className="text-white/70">Every review was scored with confidence.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 mb-6">
+            {(['All', ...REVIEW_FLAGS] as const).map(flag => (
+              <button
+                key={flag}
+                onClick={() => selectFlag(flag)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-300 ${
+                  flagFilter === flag
+                    ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white'
+                    : 'bg-white/10 text-white/70 hover:text-white'
+                }`}
+              >
+                {flag === 'All' ? 'All' : REVIEW_FLAG_LABELS[flag]} ({flag === 'All' ? queue.length : counts[flag]})
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            {filtered.slice(0, shown).map(review => (
+              <div key={review.Review_ID} className="bg-white/10 rounded-xl p-4 text-sm">
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                  <span className="font-mono font-bold text-white">{review.Review_ID}</span>
+                  <span
+                    className="px-2 py-0.5 rounded-full text-xs font-semibold text-white"
+                    style={{ backgroundColor: SENTIMENT_COLORS[review.textblob_label] }}
+                  >
+                    {review.textblob_label}
+                  </span>
+                  {reviewFlags(review).map(flag => (
+                    <span key={flag} className={`px-2 py-0.5 rounded-full text-xs ${FLAG_STYLES[flag]}`}>
+                      {REVIEW_FLAG_LABELS[flag]}
+                    </span>
+                  ))}
+                  {review.confidence !== undefined && (
+                    <span className="ml-auto flex items-center gap-2 text-xs text-white/70">
+                      Confidence
+                      <span className="w-20 bg-white/10 rounded-full h-2 overflow-hidden">
+                        <span className="block h-full rounded-full bg-amber-400" style={{ width: `${review.confidence * 100}%` }} />
+                      </span>
+                      {Math.round(review.confidence * 100)}%
+                    </span>
+                  )}
+                </div>
+                <p className="text-white/90 leading-relaxed">{review.Review_Text}</p>
+                {review.contributions.length > 0 && (
+                  <p className="text-xs text-white/60 mt-2">
+                    {review.contributions
+                      .map(c => `${c.sarcastic ? 'sarcastic ' : c.negated ? 'not ' : ''}${c.term} ${c.weight > 0 ? '+' : ''}${c.weight.toFixed(2)}`)
+                      .join(' · ')}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {filtered.length > shown && (
+            <button
+              onClick={() => setShown(current => current + PAGE_SIZE)}
+              className="mt-4 px-4 py-2 rounded-lg text-sm font-medium bg-white/10 text-white/70 hover:text-white"
+            >
+              Show {Math.min(PAGE_SIZE, filtered.length - shown)} more
+            </button>
+          )}
+        </>
+      )}
+    </motion.div>
+  );
+};
+
+export default NeedsReviewQueue;
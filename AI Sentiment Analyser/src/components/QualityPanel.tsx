@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ShieldAlert } from 'lucide-react';
+import { ReviewRecord } from '../types';
+import { QUALITY_FLAGS, QUALITY_FLAG_LABELS, QualityFlag, QualityIssue } from '../lib/quality';
+
+const PAGE_SIZE = 10;
+
+interface QualityPanelProps {
+  /** Every review of the run, flagged or not, in the order the issues were assessed on. */
+  reviews: ReviewRecord[];
+  issues: QualityIssue[];
+  /** Whether flagged reviews are left out of every metric. */
+  exclude: boolean;
+  onExcludeChange: (exclude: boolean) => void;
+}
+
+const QualityPanel: React.FC<QualityPanelProps> = ({ reviews, issues, exclude, onExcludeChange }) => {
+  const [flagFilter, setFlagFilter] = useState<QualityFlag | 'All'>('All');
+  const [shown, setShown] = useState(PAGE_SIZE);
+
+  const counts = useMemo(
+    () => Object.fromEntries(QUALITY_FLAGS.map(flag => [flag, issues.filter(issue => issue.flags.includes(flag)).length])),
+    [issues]
+  );
+  const filtered = flagFilter === 'All' ? issues : issues.filter(issue => issue.flags.includes(flagFilter));
+
+  const selectFlag = (flag: QualityFlag | 'All') => {
+    setFlagFilter(flag);
+    setShown(PAGE_SIZE);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 50 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.85, duration: 0.8 }}
+      className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+        <h3 className="text-2xl font-bold flex items-center gap-3 text-white">
+          <ShieldAlert className="w-7 h-7 text-orange-400" />
+          Review Quality
+        </h3>
+        <label className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white/10 text-white/90 text-sm font-medium cursor-pointer">
+          <input type="checkbox" checked={exclude} onChange={event => onExcludeChange(event.target.checked)} />
+          Exclude flagged reviews from metrics
+        </label>
+      </div>
+      <p className="text-white/70 text-sm mb-6">
+        {issues.length} of {reviews.length} reviews look like duplicates or spam
+        {issues.length > 0 && (exclude ? ' and are left out of every chart and score.' : ' but are still counted.')}
+        {' '}Near duplicates are found by MinHash over word pairs; the first copy of a review is always kept.
+      </p>
+
+      {issues.length === 0 ? (
+        <p className="text-white/70">No duplicate or spam-like reviews were found.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 mb-6">
+            {(['All', ...QUALITY_FLAGS] as const).map(flag => (
+              <button
+                key={flag}
+                onClick={() => selectFlag(flag)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-300 ${
+                  flagFilter === flag
+                    ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white'
+                    : 'bg-white/10 text-white/70 hover:text-white'
+                }`}
+              >
+                {flag === 'All' ? 'All' : QUALITY_FLAG_LABELS[flag]} ({flag === 'All' ? issues.length : counts[flag]})
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            {filtered.slice(0, shown).map(issue => {
+              const review = reviews[issue.index];
+              return (
+                <div key={issue.index} className="bg-white/10 rounded-xl p-4 text-sm">
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <span className="font-mono font-bold text-white">{issue.review_id}</span>
+                    {issue.flags.map(flag => (
+                      <span key={flag} className="px-2 py-0.5 rounded-full text-xs bg-orange-500/30 text-orange-100">
+                        {QUALITY_FLAG_LABELS[flag]}
+                      </span>
+                    ))}
+                    {review?.Rating !== undefined && <span className="text-white/60 text-xs">{review.Rating}★</span>}
+                  </div>
+                  {review && <p className="text-white/90 leading-relaxed">{review.Review_Text}</p>}
+                  <p className="text-xs text-white/60 mt-2">{issue.reasons.join(' · ')}</p>
+                </div>
+              );
+            })}
+          </div>
+
+          {filtered.length > shown && (
+            <button
+              onClick={() => setShown(current => current + PAGE_SIZE)}
+              className="mt-4 px-4 py-2 rounded-lg text-sm font-medium bg-white/10 text-white/70 hover:text-white"
+            >
+              Show {Math.min(PAGE_SIZE, filtered.length - shown)} more
+            </button>
+          )}
+        </>
+      )}
+    </motion.div>
+  );
+};
+
+export default QualityPanel;
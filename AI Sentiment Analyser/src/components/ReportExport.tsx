@@ -0,0 +1,183 @@
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, PieChart, Pie, Cell, LineChart, Line
+} from 'recharts';
+import { Download, FileCode, FileText, Printer, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AnalysisResults } from '../types';
+import { LABELS, SENTIMENT_COLORS } from '../lib/metrics';
+import { DateRange } from '../lib/timeseries';
+import { REPORT_SECTIONS, ReportChart, ReportSection, buildReportHtml, printHtml } from '../lib/report';
+import { downloadFile, slugify } from '../lib/download';
+import { downsamplePolarity } from '../lib/downsample';
+
+interface ReportExportProps {
+  results: AnalysisResults;
+  dataset: string;
+  lexiconVersion: number;
+  dateRange: DateRange | null;
+  onClose: () => void;
+}
+
+const AXIS_COLOR = '#4b5563';
+const METHOD_LEGEND = LABELS.map(label => ({ label, color: SENTIMENT_COLORS[label] }));
+const POLARITY_LEGEND = [
+  { label: 'TextBlob Polarity', color: '#FF6B9D' },
+  { label: 'VADER Compound', color: '#4ECDC4' }
+];
+
+/** Serializes a rendered Recharts surface into standalone SVG markup. */
+const serializeSvg = (container: HTMLElement | null) => {
+  const svg = container?.querySelector('svg.recharts-surface');
+  if (!svg) return null;
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  return new XMLSerializer().serializeToString(clone);
+};
+
+const ReportExport: React.FC<ReportExportProps> = ({ results, dataset, lexiconVersion, dateRange, onClose }) => {
+  const [sections, setSections] = useState<ReportSection[]>(REPORT_SECTIONS.map(s => s.section));
+  const chartRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  const toggle = (section: ReportSection) =>
+    setSections(current => (current.includes(section) ? current.filter(s => s !== section) : [...current, section]));
+
+  const collectCharts = (): ReportChart[] =>
+    [
+      { key: 'distribution', title: 'Sentiment Distribution', legend: METHOD_LEGEND },
+      { key: 'comparison', title: 'TextBlob vs VADER', legend: METHOD_LEGEND },
+      { key: 'polarity', title: 'Polarity by Review', legend: POLARITY_LEGEND }
+    ].flatMap(({ key, title, legend }) => {
+      const svg = serializeSvg(chartRefs.current[key]);
+      return svg ? [{ title, svg, legend }] : [];
+    });
+
+  const buildHtml = () =>
+    buildReportHtml(results, { sections, charts: collectCharts(), dataset, lexiconVersion, dateRange });
+
+  const fileName = `sentiment_report_${slugify(dataset)}`;
+
+  const notify = (message: string) =>
+    toast.success(message, {
+      style: {
+        background: 'linear-gradient(135deg, #4ECDC4 0%, #44A08D 100%)',
+        color: 'white',
+        borderRadius: '12px',
+        fontWeight: '500'
+      }
+    });
+
+  const exportHtml = () => {
+    downloadFile(buildHtml(), `${fileName}.html`, 'text/html');
+    notify('🎉 HTML report exported!');
+  };
+
+  const exportPdf = () => {
+    printHtml(buildHtml());
+    notify('🖨️ Choose "Save as PDF" in the print dialog');
+  };
+
+  const exportJson = () => {
+    downloadFile(JSON.stringify(results, null, 2), `${fileName}.json`, 'application/json');
+    notify('🎉 Report data exported!');
+  };
+
+  const buttonClass = 'flex items-center gap-2 px-5 py-3 rounded-xl bg-white/10 text-white hover:bg-white/20 font-semibold disabled:opacity-40';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20 mb-12"
+    >
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-2xl font-bold flex items-center gap-3 text-white">
+          <FileText className="w-7 h-7 text-pink-400" />
+          Export Report
+        </h3>
+        <button onClick={onClose} className="p-2 rounded-xl text-white/70 hover:text-white hover:bg-white/10">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <p className="text-white/70 text-sm mb-4">
+        {dataset} · {results.insights.total_reviews} reviews
+        {dateRange ? ` · ${dateRange.start} to ${dateRange.end}` : ''}
+      </p>
+
+      <div className="flex flex-wrap gap-3 mb-8">
+        {REPORT_SECTIONS.map(({ section, label }) => (
+          <label
+            key={section}
+            className={`flex items-center gap-2 px-4 py-2 rounded-xl cursor-pointer text-sm font-medium transition-all duration-300 ${
+              sections.includes(section) ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white' : 'bg-white/10 text-white/70 hover:text-white'
+            }`}
+          >
+            <input type="checkbox" checked={sections.includes(section)} onChange={() => toggle(section)} className="accent-pink-500" />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <button onClick={exportHtml} disabled={sections.length === 0} className={buttonClass}>
+          <FileCode className="w-5 h-5" />
+          HTML
+        </button>
+        <button onClick={exportPdf} disabled={sections.length === 0} className={buttonClass}>
+          <Printer className="w-5 h-5" />
+          PDF
+        </button>
+        <button onClick={exportJson} className={buttonClass}>
+          <Download className="w-5 h-5" />
+          Raw JSON
+        </button>
+      </div>
+
+      {/* Off-screen, light-themed renders of the charts that get serialized into the report */}
+      <div aria-hidden className="fixed -left-[10000px] top-0 bg-white">
+        <div ref={el => { chartRefs.current.distribution = el; }}>
+          <PieChart width={520} height={300}>
+            <Pie
+              data={results.chart_data.sentiment_distribution}
+              dataKey="value"
+              nameKey="name"
+              cx="50%"
+              cy="50%"
+              outerRadius={110}
+              label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
+              isAnimationActive={false}
+            >
+              {results.chart_data.sentiment_distribution.map(entry => (
+                <Cell key={entry.name} fill={entry.color} />
+              ))}
+            </Pie>
+          </PieChart>
+        </div>
+        <div ref={el => { chartRefs.current.comparison = el; }}>
+          <BarChart width={640} height={300} data={results.chart_data.sentiment_comparison}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="method" stroke={AXIS_COLOR} />
+            <YAxis stroke={AXIS_COLOR} unit="%" />
+            <Bar dataKey="positive" fill={SENTIMENT_COLORS.Positive} isAnimationActive={false} />
+            <Bar dataKey="negative" fill={SENTIMENT_COLORS.Negative} isAnimationActive={false} />
+            <Bar dataKey="neutral" fill={SENTIMENT_COLORS.Neutral} isAnimationActive={false} />
+          </BarChart>
+        </div>
+        <div ref={el => { chartRefs.current.polarity = el; }}>
+          <LineChart width={720} height={300} data={downsamplePolarity(results.chart_data.polarity_scores)}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="Review_ID" stroke={AXIS_COLOR} />
+            <YAxis stroke={AXIS_COLOR} domain={[-1, 1]} />
+            <Line type="monotone" dataKey="TB_Polarity" stroke="#FF6B9D" dot={false} strokeWidth={2} isAnimationActive={false} />
+            <Line type="monotone" dataKey="VADER_Compound" stroke="#4ECDC4" dot={false} strokeWidth={2} isAnimationActive={false} />
+          </LineChart>
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default ReportExport;
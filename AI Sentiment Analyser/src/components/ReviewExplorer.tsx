@@ -0,0 +1,369 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Search, ArrowUp, ArrowDown, X, Table, CheckCircle, Download } from 'lucide-react';
+import { Emotion, ExplorerFilters, ScoredReview, SentimentLabel } from '../types';
+import { SENTIMENT_COLORS } from '../lib/metrics';
+import { RESULTS_MIME_TYPES, ResultsFormat, exportResults } from '../lib/resultsExport';
+import { downloadFile, slugify } from '../lib/download';
+import { containsTerm } from '../lib/terms';
+import { isScored, languageName } from '../lib/language';
+import { EMOTIONS, EMOTION_COLORS } from '../lib/emotions';
+import { REVIEW_FLAG_LABELS, reviewFlags } from '../lib/reviewQueue';
+import { DEFAULT_EXPLORER_FILTERS } from '../lib/viewState';
+
+const ROW_HEIGHT = 52;
+const VIEWPORT_HEIGHT = 520;
+const OVERSCAN = 6;
+
+type SortKey = 'Review_ID' | 'Rating' | 'Product_Category' | 'Review_Date' | 'polarity' | 'vader_compound' | 'textblob_label';
+
+const COLUMNS: Array<{ key: SortKey | 'Review_Text'; label: string }> = [
+  { key: 'Review_ID', label: 'ID' },
+  { key: 'Review_Text', label: 'Review' },
+  { key: 'Rating', label: 'Rating' },
+  { key: 'Product_Category', label: 'Category' },
+  { key: 'Review_Date', label: 'Date' },
+  { key: 'polarity', label: 'TextBlob' },
+  { key: 'vader_compound', label: 'VADER' },
+  { key: 'textblob_label', label: 'Label' }
+];
+
+const GRID = 'grid grid-cols-[70px_minmax(0,1fr)_60px_130px_100px_80px_80px_90px] gap-3 items-center';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const searchTerms = (query: string) => query.toLowerCase().split(/\s+/).filter(Boolean);
+
+/** Wraps every occurrence of the search terms in a <mark>. */
+const highlight = (text: string, terms: string[]): React.ReactNode => {
+  if (terms.length === 0) return text;
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return text.split(pattern).map((part, index) =>
+    index % 2 === 1
+      ? <mark key={index} className="bg-yellow-300/80 text-gray-900 rounded px-0.5">{part}</mark>
+      : part
+  );
+};
+
+const compare = (a: string | number | undefined, b: string | number | undefined) => {
+  if (a === undefined) return b === undefined ? 0 : 1;
+  if (b === undefined) return -1;
+  return typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b));
+};
+
+const LabelBadge: React.FC<{ review: ScoredReview }> = ({ review }) =>
+  isScored(review) ? (
+    <span
+      className="px-3 py-1 rounded-full text-xs font-semibold text-white"
+      style={{ backgroundColor: SENTIMENT_COLORS[review.textblob_label] }}
+    >
+      {review.textblob_label}
+    </span>
+  ) : (
+    <span className="px-3 py-1 rounded-full text-xs font-semibold text-white bg-gray-500" title="No lexicon for this language">
+      Unscored
+    </span>
+  );
+
+interface ReviewExplorerProps {
+  reviews: ScoredReview[];
+  dataset: string;
+  lexiconVersion: number;
+  /** A keyword or n-gram picked in the Keyword Explorer; only reviews containing it are listed. */
+  term?: string | null;
+  onClearTerm?: () => void;
+  /** Controlled so the Emotions chart can point the explorer at an emotion's reviews. */
+  emotion?: Emotion | null;
+  onEmotionChange?: (emotion: Emotion | null) => void;
+  /** Controlled so the filters can be restored from a link or saved view; kept internally when absent. */
+  filters?: ExplorerFilters;
+  onFiltersChange?: (filters: ExplorerFilters) => void;
+}
+
+const ReviewExplorer: React.FC<ReviewExplorerProps> = ({
+  reviews, dataset, lexiconVersion, term = null, onClearTerm, emotion = null, onEmotionChange, filters: controlledFilters, onFiltersChange
+}) => {
+  const [ownFilters, setOwnFilters] = useState<ExplorerFilters>(DEFAULT_EXPLORER_FILTERS);
+  const filters = controlledFilters ?? ownFilters;
+  const { query, label: labelFilter, category: categoryFilter, verified: verifiedFilter, language: languageFilter } = filters;
+  const [sort, setSort] = useState<{ key: SortKey; direction: 1 | -1 }>({ key: 'Review_ID', direction: 1 });
+  const [scrollTop, setScrollTop] = useState(0);
+  const [selected, setSelected] = useState<ScoredReview | null>(null);
+
+  const categories = useMemo(
+    () => [...new Set(reviews.map(r => r.Product_Category).filter((c): c is string => !!c))].sort(),
+    [reviews]
+  );
+  const languages = useMemo(
+    () => [...new Set(reviews.map(r => r.language).filter((l): l is string => !!l))].sort(),
+    [reviews]
+  );
+  const terms = useMemo(() => searchTerms(query), [query]);
+  const highlighted = useMemo(() => (term ? [...terms, term] : terms), [terms, term]);
+
+  const rows = useMemo(() => {
+    const filtered = reviews.filter(review => {
+      if (labelFilter !== 'All' && (review.textblob_label !== labelFilter || !isScored(review))) return false;
+      if (languageFilter !== 'All' && review.language !== languageFilter) return false;
+      if (categoryFilter !== 'All' && review.Product_Category !== categoryFilter) return false;
+      if (verifiedFilter === 'Verified' && review.Verified_Purchase !== true) return false;
+      if (verifiedFilter === 'Unverified' && review.Verified_Purchase !== false) return false;
+      if (emotion && review.dominant_emotion !== emotion) return false;
+      if (term && !containsTerm(review.Review_Text, term)) return false;
+      const text = review.Review_Text.toLowerCase();
+      return terms.every(searchTerm => text.includes(searchTerm));
+    });
+    return filtered.sort((a, b) => compare(a[sort.key], b[sort.key]) * sort.direction);
+  }, [reviews, labelFilter, categoryFilter, verifiedFilter, languageFilter, emotion, term, terms, sort]);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+  const setFilters = (changes: Partial<ExplorerFilters>) => {
+    const next = { ...filters, ...changes };
+    if (onFiltersChange) onFiltersChange(next);
+    else setOwnFilters(next);
+  };
+
+  const toggleSort = (key: SortKey) =>
+    setSort(current => ({ key, direction: current.key === key ? (current.direction === 1 ? -1 : 1) : 1 }));
+
+  // Exports exactly the rows on screen: active filters, search and sort order included
+  const exportRows = (format: ResultsFormat) =>
+    downloadFile(exportResults(rows, lexiconVersion, format), `scored_${slugify(dataset)}.${format}`, RESULTS_MIME_TYPES[format]);
+
+  const selectClass = 'bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white';
+
+  return (
+    <motion.div
+      id="review-explorer"
+      initial={{ opacity: 0, y: 50 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.9, duration: 0.8 }}
+      className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+        <h3 className="text-2xl font-bold flex items-center gap-3 text-white">
+          <Table className="w-7 h-7 text-blue-400" />
+          Review Explorer
+          <span className="text-base font-medium text-white/60">{rows.length} of {reviews.length} reviews</span>
+        </h3>
+        <div className="flex gap-2">
+          {(['csv', 'xlsx'] as const).map(format => (
+            <button
+              key={format}
+              disabled={rows.length === 0}
+              onClick={() => exportRows(format)}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white/10 text-white/90 hover:bg-white/20 text-sm font-medium disabled:opacity-40"
+            >
+              <Download className="w-4 h-4" />
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4 mb-6">
+        <div className="relative flex-1 min-w-[220px]">
+          <Search className="w-5 h-5 absolute left-3 top-1/2 -translate-y-1/2 text-white/60" />
+          <input
+            value={query}
+            onChange={event => setFilters({ query: event.target.value })}
+            placeholder="Search review text..."
+            className="w-full bg-white/10 border border-white/20 rounded-xl pl-10 pr-3 py-2 text-white placeholder-white/50"
+          />
+        </div>
+        <select value={labelFilter} onChange={event => setFilters({ label: event.target.value as SentimentLabel | 'All' })} className={selectClass}>
+          {['All', 'Positive', 'Negative', 'Neutral'].map(option => (
+            <option key={option} value={option} className="text-gray-900">{option === 'All' ? 'All labels' : option}</option>
+          ))}
+        </select>
+        <select value={categoryFilter} onChange={event => setFilters({ category: event.target.value })} className={selectClass}>
+          <option value="All" className="text-gray-900">All categories</option>
+          {categories.map(category => (
+            <option key={category} value={category} className="text-gray-900">{category}</option>
+          ))}
+        </select>
+        <select value={verifiedFilter} onChange={event => setFilters({ verified: event.target.value as ExplorerFilters['verified'] })} className={selectClass}>
+          <option value="All" className="text-gray-900">All purchases</option>
+          <option value="Verified" className="text-gray-900">Verified only</option>
+          <option value="Unverified" className="text-gray-900">Unverified only</option>
+        </select>
+        {languages.length > 1 && (
+          <select value={languageFilter} onChange={event => setFilters({ language: event.target.value })} className={selectClass}>
+            <option value="All" className="text-gray-900">All languages</option>
+            {languages.map(language => (
+              <option key={language} value={language} className="text-gray-900">{languageName(language)}</option>
+            ))}
+          </select>
+        )}
+        {onEmotionChange && (
+          <select
+            value={emotion ?? 'All'}
+            onChange={event => onEmotionChange(event.target.value === 'All' ? null : (event.target.value as Emotion))}
+            className={`${selectClass} capitalize`}
+          >
+            <option value="All" className="text-gray-900">All emotions</option>
+            {EMOTIONS.map(option => (
+              <option key={option} value={option} className="text-gray-900">{option}</option>
+            ))}
+          </select>
+        )}
+        {term && (
+          <span className="flex items-center gap-2 px-3 py-2 rounded-xl bg-gradient-to-r from-purple-500 to-pink-500 text-white text-sm font-medium">
+            Contains “{term}”
+            {onClearTerm && (
+              <button onClick={onClearTerm} className="hover:text-white/70" aria-label="Clear keyword filter">
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </span>
+        )}
+      </div>
+
+      <div className={`${GRID} px-4 pb-3 text-xs font-bold uppercase tracking-wide text-white/70 border-b border-white/20`}>
+        {COLUMNS.map(column =>
+          column.key === 'Review_Text' ? (
+            <span key={column.key}>{column.label}</span>
+          ) : (
+            <button
+              key={column.key}
+              onClick={() => toggleSort(column.key as SortKey)}
+              className="flex items-center gap-1 text-left hover:text-white"
+            >
+              {column.label}
+              {sort.key === column.key && (sort.direction === 1 ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+            </button>
+          )
+        )}
+      </div>
+
+      <div
+        className="overflow-y-auto"
+        style={{ height: VIEWPORT_HEIGHT }}
+        onScroll={event => setScrollTop(event.currentTarget.scrollTop)}
+      >
+        <div className="relative" style={{ height: rows.length * ROW_HEIGHT }}>
+          {rows.slice(first, last).map((review, offset) => (
+            <div
+              key={review.Review_ID}
+              onClick={() => setSelected(review)}
+              className={`${GRID} absolute left-0 right-0 px-4 text-sm text-white/90 border-b border-white/10 cursor-pointer hover:bg-white/10 ${
+                selected?.Review_ID === review.Review_ID ? 'bg-white/15' : ''
+              }`}
+              style={{ top: (first + offset) * ROW_HEIGHT, height: ROW_HEIGHT }}
+            >
+              <span className="font-mono text-xs">{review.Review_ID}</span>
+              <span className="truncate">{highlight(review.Review_Text, highlighted)}</span>
+              <span>{review.Rating ?? '—'}</span>
+              <span className="truncate">{review.Product_Category ?? '—'}</span>
+              <span>{review.Review_Date ?? '—'}</span>
+              <span>{review.polarity.toFixed(3)}</span>
+              <span>{review.vader_compound.toFixed(3)}</span>
+              <span><LabelBadge review={review} /></span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <AnimatePresence>
+        {selected && (
+          <motion.div
+            key={selected.Review_ID}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            className="mt-8 bg-white/10 rounded-2xl p-6 border border-white/20"
+          >
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <div className="flex flex-wrap items-center gap-3 text-white">
+                <span className="font-mono font-bold">{selected.Review_ID}</span>
+                <LabelBadge review={selected} />
+                {selected.language && (
+                  <span className="px-2 py-0.5 rounded-full text-xs bg-white/15 text-white/80">{languageName(selected.language)}</span>
+                )}
+                {selected.dominant_emotion && (
+                  <span
+                    className="px-2 py-0.5 rounded-full text-xs font-semibold text-gray-900 capitalize"
+                    style={{ backgroundColor: EMOTION_COLORS[selected.dominant_emotion] }}
+                  >
+                    {selected.dominant_emotion}
+                  </span>
+                )}
+                {selected.Verified_Purchase && (
+                  <span className="flex items-center gap-1 text-xs text-green-300">
+                    <CheckCircle className="w-4 h-4" /> Verified purchase
+                  </span>
+                )}
+              </div>
+              <button onClick={() => setSelected(null)} className="p-1 rounded-lg text-white/70 hover:text-white hover:bg-white/10">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <p className="text-white/90 leading-relaxed mb-6">{highlight(selected.Review_Text, highlighted)}</p>
+
+            {reviewFlags(selected).length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-4">
+                {reviewFlags(selected).map(flag => (
+                  <span key={flag} className="px-2 py-0.5 rounded-full text-xs bg-amber-500/30 text-amber-100">
+                    {REVIEW_FLAG_LABELS[flag]}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6 text-sm">
+              {[
+                { label: 'TextBlob polarity', value: selected.polarity.toFixed(3) },
+                { label: 'Subjectivity', value: selected.subjectivity.toFixed(3) },
+                { label: 'VADER compound', value: selected.vader_compound.toFixed(3) },
+                { label: 'VADER label', value: selected.vader_label },
+                { label: 'Confidence', value: selected.confidence === undefined ? '—' : `${Math.round(selected.confidence * 100)}%` }
+              ].map(metric => (
+                <div key={metric.label} className="bg-white/10 rounded-xl p-3">
+                  <p className="text-white/60 text-xs">{metric.label}</p>
+                  <p className="text-white font-bold text-lg">{metric.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <h4 className="font-bold text-white mb-3">Words driving the score</h4>
+            {!isScored(selected) ? (
+              <p className="text-white/60 text-sm">
+                Not scored: there is no sentiment lexicon for {languageName(selected.language ?? '')}, so this review is left out of the metrics.
+              </p>
+            ) : selected.contributions.length === 0 ? (
+              <p className="text-white/60 text-sm">No lexicon terms matched this review.</p>
+            ) : (
+              <div className="space-y-2">
+                {[...selected.contributions]
+                  .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight))
+                  .map((contribution, index) => (
+                    <div key={index} className="flex items-center gap-3 text-sm">
+                      <span className="w-32 text-white font-medium">
+                        {contribution.sarcastic && <span className="text-white/60">sarcastic </span>}
+                        {contribution.negated && <span className="text-white/60">not </span>}
+                        {contribution.term}
+                      </span>
+                      <div className="flex-1 bg-white/10 rounded-full h-2 overflow-hidden">
+                        <div
+                          className="h-full rounded-full"
+                          style={{
+                            width: `${Math.min(100, (Math.abs(contribution.weight) / 4) * 100)}%`,
+                            backgroundColor: contribution.weight >= 0 ? SENTIMENT_COLORS.Positive : SENTIMENT_COLORS.Negative
+                          }}
+                        />
+                      </div>
+                      <span className="w-16 text-right text-white/80">{contribution.weight > 0 ? '+' : ''}{contribution.weight.toFixed(2)}</span>
+                    </div>
+                  ))}
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+};
+
+export default ReviewExplorer;
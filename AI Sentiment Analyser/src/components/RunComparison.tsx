@@ -0,0 +1,173 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { GitCompare, X } from 'lucide-react';
+import { AnalysisRun } from '../types';
+import { DistributionShift, compareRuns } from '../lib/compare';
+
+const MAX_LISTED_FLIPS = 100;
+
+interface RunComparisonProps {
+  before: AnalysisRun;
+  after: AnalysisRun;
+  onClose: () => void;
+}
+
+const formatDelta = (delta: number, unit = '') => `${delta > 0 ? '+' : ''}${delta}${unit}`;
+
+const deltaColor = (delta: number) => (delta > 0 ? 'text-green-300' : delta < 0 ? 'text-red-300' : 'text-white/60');
+
+const RunHeader: React.FC<{ run: AnalysisRun; tag: string }> = ({ run, tag }) => (
+  <div className="bg-white/10 rounded-2xl p-4">
+    <div className="text-xs uppercase tracking-wide text-white/60">{tag}</div>
+    <div className="font-semibold text-white truncate" title={run.dataset}>{run.dataset}</div>
+    <div className="text-xs text-white/60 mt-1">
+      {new Date(run.results.analysis_timestamp).toLocaleString()} · lexicon v{run.lexicon_version}
+    </div>
+  </div>
+);
+
+const ShiftTable: React.FC<{ method: string; shifts: DistributionShift[] }> = ({ method, shifts }) => (
+  <table className="w-full text-sm text-white/90 mb-4">
+    <thead>
+      <tr className="text-left text-xs uppercase tracking-wide text-white/60 border-b border-white/20">
+        <th className="py-2 pr-4">{method}</th>
+        <th className="py-2 pr-4">Before</th>
+        <th className="py-2 pr-4">After</th>
+        <th className="py-2">Δ</th>
+      </tr>
+    </thead>
+    <tbody>
+      {shifts.map(shift => (
+        <tr key={shift.label} className="border-b border-white/10">
+          <td className="py-2 pr-4 font-semibold">{shift.label}</td>
+          <td className="py-2 pr-4">{shift.before}%</td>
+          <td className="py-2 pr-4">{shift.after}%</td>
+          <td className={`py-2 font-semibold ${deltaColor(shift.label === 'Negative' ? -shift.delta : shift.delta)}`}>
+            {formatDelta(shift.delta, ' pp')}
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const RunComparison: React.FC<RunComparisonProps> = ({ before, after, onClose }) => {
+  const comparison = useMemo(() => compareRuns(before.results, after.results), [before, after]);
+
+  const chartData = comparison.textblob_shift.map(shift => ({ label: shift.label, before: shift.before, after: shift.after }));
+
+  const stats = [
+    {
+      label: 'Reviews',
+      before: before.results.insights.total_reviews,
+      after: after.results.insights.total_reviews,
+      delta: after.results.insights.total_reviews - before.results.insights.total_reviews
+    },
+    {
+      label: 'Satisfaction',
+      before: before.results.insights.satisfaction_score,
+      after: after.results.insights.satisfaction_score,
+      delta: comparison.satisfaction_delta
+    },
+    {
+      label: 'Avg Polarity',
+      before: before.results.insights.average_polarity,
+      after: after.results.insights.average_polarity,
+      delta: comparison.polarity_delta
+    }
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20 mb-12"
+    >
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-2xl font-bold flex items-center gap-3 text-white">
+          <GitCompare className="w-7 h-7 text-blue-400" />
+          Compare Runs
+        </h3>
+        <button onClick={onClose} className="p-2 rounded-xl text-white/70 hover:text-white hover:bg-white/10">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+        <RunHeader run={before} tag="Before" />
+        <RunHeader run={after} tag="After" />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-white/10 rounded-2xl p-4 text-white">
+            <div className="text-sm text-white/70 mb-2">{stat.label}</div>
+            <div className="flex items-baseline justify-between gap-2">
+              <span className="text-lg">{stat.before} → <span className="font-bold">{stat.after}</span></span>
+              <span className={`font-semibold ${deltaColor(stat.label === 'Reviews' ? 0 : stat.delta)}`}>{formatDelta(stat.delta)}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div>
+          <h4 className="font-bold text-white mb-4 text-lg">Distribution Shift</h4>
+          <div className="h-64 mb-6">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+                <XAxis dataKey="label" stroke="white" />
+                <YAxis stroke="white" unit="%" />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'rgba(255,255,255,0.9)',
+                    border: 'none',
+                    borderRadius: '12px',
+                    boxShadow: '0 10px 30px rgba(0,0,0,0.2)'
+                  }}
+                />
+                <Legend />
+                <Bar dataKey="before" fill="#A78BFA" name="Before" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="after" fill="#FF6B9D" name="After" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <ShiftTable method="TextBlob" shifts={comparison.textblob_shift} />
+          <ShiftTable method="VADER" shifts={comparison.vader_shift} />
+        </div>
+
+        <div>
+          <h4 className="font-bold text-white mb-4 text-lg">Flipped Labels ({comparison.flipped.length})</h4>
+          {comparison.flipped.length === 0 ? (
+            <p className="text-white/70 text-sm">No review present in both runs changed label.</p>
+          ) : (
+            <div className="space-y-3 max-h-[36rem] overflow-y-auto pr-2">
+              {comparison.flipped.slice(0, MAX_LISTED_FLIPS).map(change => (
+                <div key={change.review_id} className="bg-white/10 rounded-xl p-4 text-sm">
+                  <div className="flex flex-wrap gap-3 mb-2 text-xs">
+                    <span className="font-mono font-bold text-white">{change.review_id}</span>
+                    {change.before.textblob !== change.after.textblob && (
+                      <span className="text-pink-300">TextBlob {change.before.textblob} → {change.after.textblob}</span>
+                    )}
+                    {change.before.vader !== change.after.vader && (
+                      <span className="text-cyan-300">VADER {change.before.vader} → {change.after.vader}</span>
+                    )}
+                  </div>
+                  <p className="text-white/90 leading-relaxed">{change.text}</p>
+                </div>
+              ))}
+              {comparison.flipped.length > MAX_LISTED_FLIPS && (
+                <p className="text-white/60 text-sm">…and {comparison.flipped.length - MAX_LISTED_FLIPS} more</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default RunComparison;
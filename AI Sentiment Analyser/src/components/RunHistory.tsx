@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { GitCompare, History, Trash2, X } from 'lucide-react';
+import { AnalysisRun } from '../types';
+
+interface RunHistoryProps {
+  runs: AnalysisRun[];
+  activeRunId: string | null;
+  onOpen: (run: AnalysisRun) => void;
+  onCompare: (before: AnalysisRun, after: AnalysisRun) => void;
+  onDelete: (run: AnalysisRun) => void;
+  onClose: () => void;
+}
+
+const RunHistory: React.FC<RunHistoryProps> = ({ runs, activeRunId, onOpen, onCompare, onDelete, onClose }) => {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const toggle = (id: string) =>
+    setSelected(current => (current.includes(id) ? current.filter(s => s !== id) : [...current.slice(-1), id]));
+
+  const compareSelected = () => {
+    const [before, after] = runs
+      .filter(run => selected.includes(run.id))
+      .sort((a, b) => a.results.analysis_timestamp.localeCompare(b.results.analysis_timestamp));
+    if (before && after) onCompare(before, after);
+  };
+
+  return (
+    <motion.aside
+      initial={{ x: '100%' }}
+      animate={{ x: 0 }}
+      exit={{ x: '100%' }}
+      transition={{ type: 'spring', damping: 30, stiffness: 250 }}
+      className="fixed inset-y-0 right-0 z-50 w-full max-w-md bg-slate-900/90 backdrop-blur-xl border-l border-white/20 shadow-2xl flex flex-col"
+    >
+      <div className="flex items-center justify-between p-6 border-b border-white/20">
+        <h3 className="text-2xl font-bold flex items-center gap-3 text-white">
+          <History className="w-7 h-7 text-blue-400" />
+          Run History
+        </h3>
+        <button onClick={onClose} className="p-2 rounded-xl text-white/70 hover:text-white hover:bg-white/10">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 px-6 py-4 text-sm text-white/70">
+        <span>{selected.length === 2 ? 'Ready to compare' : 'Tick two runs to compare them'}</span>
+        <button
+          disabled={selected.length !== 2}
+          onClick={compareSelected}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl bg-gradient-to-r from-purple-500 to-pink-500 text-white font-medium disabled:opacity-40"
+        >
+          <GitCompare className="w-4 h-4" />
+          Compare
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 pb-6 space-y-3">
+        {runs.length === 0 && <p className="text-white/60 text-sm">Runs are saved here every time you start an analysis.</p>}
+        {runs.map(run => (
+          <div
+            key={run.id}
+            className={`rounded-2xl p-4 border transition-all duration-300 ${
+              run.id === activeRunId ? 'bg-white/20 border-pink-400/60' : 'bg-white/10 border-white/10 hover:bg-white/15'
+            }`}
+          >
+            <div className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                checked={selected.includes(run.id)}
+                onChange={() => toggle(run.id)}
+                className="mt-1 accent-pink-500"
+              />
+              <button onClick={() => onOpen(run)} className="flex-1 text-left">
+                <div className="font-semibold text-white truncate" title={run.dataset}>{run.dataset}</div>
+                <div className="text-xs text-white/60 mt-1">
+                  {new Date(run.results.analysis_timestamp).toLocaleString()} · lexicon v{run.lexicon_version}
+                </div>
+                <div className="flex gap-4 text-xs text-white/80 mt-2">
+                  <span>{run.results.insights.total_reviews} reviews</span>
+                  <span>{run.results.insights.satisfaction_score}/100</span>
+                  <span>{run.results.insights.textblob_percentages.Positive}% positive</span>
+                </div>
+              </button>
+              <button
+                title="Delete run"
+                onClick={() => {
+                  setSelected(current => current.filter(id => id !== run.id));
+                  onDelete(run);
+                }}
+                className="p-1 rounded-lg text-white/60 hover:text-red-300 hover:bg-white/10"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </motion.aside>
+  );
+};
+
+export default RunHistory;
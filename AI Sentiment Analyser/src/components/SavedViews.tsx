@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Bookmark, Link2, Save, Trash2 } from 'lucide-react';
+import { SavedView } from '../lib/viewState';
+
+interface SavedViewsProps {
+  views: SavedView[];
+  onApply: (view: SavedView) => void;
+  onSave: (name: string) => void;
+  onDelete: (view: SavedView) => void;
+  onCopyLink: () => void;
+}
+
+const SavedViews: React.FC<SavedViewsProps> = ({ views, onApply, onSave, onDelete, onCopyLink }) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const save = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className="relative">
+      <motion.button
+        whileHover={{ scale: 1.05, boxShadow: "0 10px 30px rgba(0,0,0,0.2)" }}
+        whileTap={{ scale: 0.95 }}
+        onClick={() => setOpen(current => !current)}
+        className="flex items-center gap-3 px-8 py-4 bg-white/20 backdrop-blur-sm text-white border border-white/30 rounded-2xl hover:bg-white/30 shadow-2xl text-lg font-semibold transition-all duration-300"
+      >
+        <Bookmark className="w-6 h-6" />
+        Views
+      </motion.button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="absolute right-0 mt-3 w-80 bg-gray-900/90 backdrop-blur-xl rounded-2xl shadow-2xl border border-white/20 p-4 text-white"
+          >
+            <button
+              onClick={() => {
+                onCopyLink();
+                setOpen(false);
+              }}
+              className="w-full flex items-center gap-2 px-4 py-2 rounded-xl bg-white/10 text-white/90 hover:bg-white/20 text-sm font-medium mb-4"
+            >
+              <Link2 className="w-4 h-4" />
+              Copy link to this view
+            </button>
+
+            <div className="flex gap-2 mb-4">
+              <input
+                value={name}
+                onChange={event => setName(event.target.value)}
+                onKeyDown={event => { if (event.key === 'Enter') save(); }}
+                placeholder="Name this view"
+                className="flex-1 min-w-0 bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white text-sm placeholder-white/50"
+              />
+              <button
+                onClick={save}
+                disabled={!name.trim()}
+                className="flex items-center gap-2 px-3 py-2 rounded-xl bg-gradient-to-r from-purple-500 to-pink-500 text-white text-sm font-semibold disabled:opacity-40"
+              >
+                <Save className="w-4 h-4" />
+                Save
+              </button>
+            </div>
+
+            {views.length === 0 ? (
+              <p className="text-white/60 text-sm">No saved views yet. Saved views stay in this browser.</p>
+            ) : (
+              <ul className="space-y-1 max-h-64 overflow-y-auto">
+                {views.map(view => (
+                  <li key={view.id} className="flex items-center gap-2">
+                    <button
+                      onClick={() => {
+                        onApply(view);
+                        setOpen(false);
+                      }}
+                      className="flex-1 min-w-0 text-left px-3 py-2 rounded-lg hover:bg-white/10 text-sm"
+                    >
+                      <span className="block font-medium truncate">{view.name}</span>
+                      <span className="block text-xs text-white/50">{new Date(view.saved_at).toLocaleString()}</span>
+                    </button>
+                    <button
+                      onClick={() => onDelete(view)}
+                      className="p-2 rounded-lg text-white/60 hover:text-white hover:bg-white/10"
+                      aria-label={`Delete ${view.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default SavedViews;
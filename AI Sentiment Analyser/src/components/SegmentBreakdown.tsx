@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Layers } from 'lucide-react';
+import { ScoredReview, SegmentDimension, SegmentSummary } from '../types';
+import { SENTIMENT_COLORS } from '../lib/metrics';
+import { SEGMENT_DIMENSIONS, computeHeatmap } from '../lib/segments';
+
+const MAX_CHART_SEGMENTS = 12;
+
+interface SegmentBreakdownProps {
+  segments: Record<SegmentDimension, SegmentSummary[]>;
+  reviews: ScoredReview[];
+  /** Controlled so the chosen dimension can be restored from a link or saved view; kept internally when absent. */
+  dimension?: SegmentDimension;
+  onDimensionChange?: (dimension: SegmentDimension) => void;
+}
+
+/** Red (0) through amber (50) to green (100). */
+const satisfactionColor = (score: number) => `hsla(${Math.round((score / 100) * 130)}, 75%, 50%, 0.85)`;
+
+const SegmentBreakdown: React.FC<SegmentBreakdownProps> = ({ segments, reviews, dimension: controlledDimension, onDimensionChange }) => {
+  const [ownDimension, setOwnDimension] = useState<SegmentDimension>('Product_Category');
+  const dimension = controlledDimension ?? ownDimension;
+  const setDimension = onDimensionChange ?? setOwnDimension;
+  const heatmap = useMemo(() => computeHeatmap(reviews, 'Product_Category', 'Reviewer_Location'), [reviews]);
+
+  const chartData = segments[dimension].slice(0, MAX_CHART_SEGMENTS).map(summary => ({
+    segment: summary.segment,
+    positive: summary.percentages.Positive,
+    negative: summary.percentages.Negative,
+    neutral: summary.percentages.Neutral
+  }));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 50 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.85, duration: 0.8 }}
+      className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+        <h3 className="text-2xl font-bold flex items-center gap-3 text-white">
+          <Layers className="w-7 h-7 text-green-400" />
+          Segment Breakdown
+        </h3>
+        <div className="flex bg-white/10 rounded-xl p-1">
+          {SEGMENT_DIMENSIONS.map(option => (
+            <button
+              key={option.dimension}
+              onClick={() => setDimension(option.dimension)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-300 ${
+                dimension === option.dimension ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white' : 'text-white/70 hover:text-white'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="h-80 mb-8">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+            <XAxis dataKey="segment" stroke="white" />
+            <YAxis stroke="white" unit="%" />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'rgba(255,255,255,0.9)',
+                border: 'none',
+                borderRadius: '12px',
+                boxShadow: '0 10px 30px rgba(0,0,0,0.2)'
+              }}
+            />
+            <Legend />
+            <Bar dataKey="positive" fill={SENTIMENT_COLORS.Positive} name="Positive" radius={[4, 4, 0, 0]} />
+            <Bar dataKey="negative" fill={SENTIMENT_COLORS.Negative} name="Negative" radius={[4, 4, 0, 0]} />
+            <Bar dataKey="neutral" fill={SENTIMENT_COLORS.Neutral} name="Neutral" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="overflow-x-auto mb-10">
+        <table className="w-full text-sm text-white/90">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wide text-white/60 border-b border-white/20">
+              <th className="py-2 pr-4">Segment</th>
+              <th className="py-2 pr-4">Reviews</th>
+              <th className="py-2 pr-4">Satisfaction</th>
+              <th className="py-2 pr-4">Avg Polarity</th>
+              <th className="py-2 pr-4">Top Positive</th>
+              <th className="py-2">Top Negative</th>
+            </tr>
+          </thead>
+          <tbody>
+            {segments[dimension].map(summary => (
+              <tr key={summary.segment} className="border-b border-white/10">
+                <td className="py-2 pr-4 font-semibold">{summary.segment}</td>
+                <td className="py-2 pr-4">{summary.total}</td>
+                <td className="py-2 pr-4">{summary.satisfaction_score}/100</td>
+                <td className="py-2 pr-4">{summary.average_polarity}</td>
+                <td className="py-2 pr-4 text-green-300">{summary.top_positive_words.join(', ') || '—'}</td>
+                <td className="py-2 text-red-300">{summary.top_negative_words.join(', ') || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <h4 className="font-bold text-white mb-4 text-lg">Satisfaction by Category × Location</h4>
+      <div className="overflow-x-auto">
+        <div
+          className="grid gap-1 min-w-max"
+          style={{ gridTemplateColumns: `140px repeat(${heatmap.columns.length}, minmax(72px, 1fr))` }}
+        >
+          <div />
+          {heatmap.columns.map(column => (
+            <div key={column} className="text-xs text-white/70 font-semibold text-center px-1 truncate" title={column}>
+              {column}
+            </div>
+          ))}
+          {heatmap.rows.map(row => (
+            <React.Fragment key={row}>
+              <div className="text-sm text-white font-semibold flex items-center truncate" title={row}>{row}</div>
+              {heatmap.columns.map(column => {
+                const cell = heatmap.cells.find(c => c.row === row && c.column === column);
+                return (
+                  <div
+                    key={column}
+                    title={cell?.total ? `${row} · ${column}: ${cell.satisfaction_score}/100 from ${cell.total} reviews` : 'No reviews'}
+                    className="h-12 rounded-lg flex flex-col items-center justify-center text-xs text-white"
+                    style={{
+                      backgroundColor: cell?.satisfaction_score !== null && cell?.satisfaction_score !== undefined
+                        ? satisfactionColor(cell.satisfaction_score)
+                        : 'rgba(255,255,255,0.05)'
+                    }}
+                  >
+                    {cell?.total ? (
+                      <>
+                        <span className="font-bold">{cell.satisfaction_score}</span>
+                        <span className="opacity-80">n={cell.total}</span>
+                      </>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default SegmentBreakdown;
@@ -0,0 +1,112 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Brush, ResponsiveContainer
+} from 'recharts';
+import { ScoredReview } from '../types';
+import { SENTIMENT_COLORS } from '../lib/metrics';
+import { DateRange, Granularity, buildTimeSeries, splitDatedReviews } from '../lib/timeseries';
+
+interface SentimentTimelineProps {
+  reviews: ScoredReview[];
+  range: DateRange | null;
+  onRangeChange: (range: DateRange | null) => void;
+}
+
+const SentimentTimeline: React.FC<SentimentTimelineProps> = ({ reviews, range, onRangeChange }) => {
+  const [granularity, setGranularity] = useState<Granularity>('week');
+  const buckets = useMemo(() => buildTimeSeries(reviews, granularity), [reviews, granularity]);
+  const outliers = useMemo(() => splitDatedReviews(reviews, granularity).outliers, [reviews, granularity]);
+  // The chart keeps its own brush state, so remount it only when the range changes from outside
+  const emittedRange = useRef(range);
+  const [brushVersion, setBrushVersion] = useState(0);
+
+  useEffect(() => {
+    if (range !== emittedRange.current) {
+      emittedRange.current = range;
+      setBrushVersion(version => version + 1);
+    }
+  }, [range]);
+
+  if (buckets.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center text-white/70 text-lg">
+        No reviews have a readable Review_Date to plot over time.
+      </div>
+    );
+  }
+
+  const startIndex = range ? Math.max(0, buckets.findIndex(b => b.end >= range.start)) : 0;
+  const endIndex = range
+    ? buckets.reduce((last, b, index) => (b.start <= range.end ? index : last), buckets.length - 1)
+    : buckets.length - 1;
+
+  const handleBrush = ({ startIndex: from, endIndex: to }: { startIndex?: number; endIndex?: number }) => {
+    if (from === undefined || to === undefined) return;
+    const next = from === 0 && to === buckets.length - 1 ? null : { start: buckets[from].start, end: buckets[to].end };
+    emittedRange.current = next;
+    onRangeChange(next);
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-end gap-2 mb-2">
+        {outliers.length > 0 && (
+          <p className="mr-auto text-amber-100 text-sm">
+            {outliers.length} review{outliers.length === 1 ? '' : 's'} dated far outside the rest (such as{' '}
+            {outliers[0].Review_Date}) {outliers.length === 1 ? 'is' : 'are'} left off the chart.
+          </p>
+        )}
+        {(['day', 'week', 'month'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => {
+              setGranularity(option);
+              onRangeChange(null);
+            }}
+            className={`px-4 py-1 rounded-lg text-sm font-medium transition-all duration-300 ${
+              granularity === option ? 'bg-white/30 text-white' : 'text-white/70 hover:bg-white/10'
+            }`}
+          >
+            {option.charAt(0).toUpperCase() + option.slice(1)}
+          </button>
+        ))}
+      </div>
+      <div className="flex-1">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart key={`${granularity}-${brushVersion}`} data={buckets}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+            <XAxis dataKey="label" stroke="white" />
+            <YAxis yAxisId="count" stroke="white" allowDecimals={false} />
+            <YAxis yAxisId="polarity" orientation="right" domain={[-1, 1]} stroke="white" />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'rgba(255,255,255,0.9)',
+                border: 'none',
+                borderRadius: '12px',
+                boxShadow: '0 10px 30px rgba(0,0,0,0.2)'
+              }}
+            />
+            <Legend />
+            <Bar yAxisId="count" dataKey="positive" stackId="mix" fill={SENTIMENT_COLORS.Positive} name="Positive" />
+            <Bar yAxisId="count" dataKey="neutral" stackId="mix" fill={SENTIMENT_COLORS.Neutral} name="Neutral" />
+            <Bar yAxisId="count" dataKey="negative" stackId="mix" fill={SENTIMENT_COLORS.Negative} name="Negative" radius={[4, 4, 0, 0]} />
+            <Line yAxisId="polarity" type="monotone" dataKey="average_polarity" stroke="#FFFFFF" strokeWidth={2} name="Avg Polarity" connectNulls />
+            <Line yAxisId="polarity" type="monotone" dataKey="rolling_polarity" stroke="#F8B500" strokeWidth={3} strokeDasharray="6 3" dot={false} name="Rolling Avg" />
+            <Brush
+              dataKey="label"
+              height={28}
+              stroke="#C084FC"
+              fill="rgba(255,255,255,0.1)"
+              travellerWidth={10}
+              startIndex={startIndex}
+              endIndex={endIndex}
+              onChange={handleBrush}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default SentimentTimeline;
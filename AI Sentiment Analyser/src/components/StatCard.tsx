@@ -0,0 +1,89 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Sparkles } from 'lucide-react';
+
+interface StatCardProps {
+  title: string;
+  value: string | number;
+  icon: React.ReactNode;
+  gradient: string;
+  subtitle?: string;
+  delay?: number;
+  /** Controls rendered under the subtitle. */
+  footer?: React.ReactNode;
+}
+
+const StatCard: React.FC<StatCardProps> = ({ title, value, icon, gradient, subtitle, delay = 0, footer }) => (
+  <motion.div
+    initial={{ opacity: 0, y: 30, scale: 0.9 }}
+    animate={{ opacity: 1, y: 0, scale: 1 }}
+    transition={{ delay, duration: 0.6, type: "spring", bounce: 0.4 }}
+    whileHover={{
+      scale: 1.05,
+      y: -8,
+      boxShadow: "0 20px 40px rgba(0,0,0,0.15)",
+      transition: { duration: 0.3 }
+    }}
+    whileTap={{ scale: 0.98 }}
+    className={`relative overflow-hidden bg-gradient-to-br ${gradient} rounded-2xl p-6 text-white shadow-xl cursor-pointer group`}
+  >
+    {/* Animated background pattern */}
+    <div className="absolute inset-0 opacity-10">
+      <motion.div
+        animate={{
+          backgroundPosition: ["0% 0%", "100% 100%"],
+        }}
+        transition={{
+          duration: 20,
+          repeat: Infinity,
+          repeatType: "reverse"
+        }}
+        className="w-full h-full bg-gradient-to-r from-white/20 to-transparent"
+        style={{
+          backgroundImage: "radial-gradient(circle at 20% 50%, white 2px, transparent 2px), radial-gradient(circle at 80% 50%, white 2px, transparent 2px)",
+          backgroundSize: "30px 30px"
+        }}
+      />
+    </div>
+
+    <div className="relative z-10">
+      <div className="flex items-center justify-between mb-4">
+        <motion.div
+          whileHover={{ rotate: 360, scale: 1.2 }}
+          transition={{ duration: 0.6 }}
+          className="p-3 bg-white/20 backdrop-blur-sm rounded-xl group-hover:bg-white/30 transition-all duration-300"
+        >
+          {icon}
+        </motion.div>
+        <motion.div
+          animate={{ rotate: [0, 5, -5, 0] }}
+          transition={{ duration: 2, repeat: Infinity, repeatDelay: 3 }}
+        >
+          <Sparkles className="w-5 h-5 opacity-60" />
+        </motion.div>
+      </div>
+      <h3 className="text-sm font-medium opacity-90 mb-2">{title}</h3>
+      <motion.p
+        initial={{ scale: 0 }}
+        animate={{ scale: 1 }}
+        transition={{ delay: delay + 0.3, type: "spring", bounce: 0.6 }}
+        className="text-3xl font-bold mb-1"
+      >
+        {value}
+      </motion.p>
+      {subtitle && (
+        <motion.p
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: delay + 0.5 }}
+          className="text-xs opacity-80 font-medium"
+        >
+          {subtitle}
+        </motion.p>
+      )}
+      {footer && <div className="mt-3">{footer}</div>}
+    </div>
+  </motion.div>
+);
+
+export default StatCard;
@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Cloud } from 'lucide-react';
+import { ScoredReview } from '../types';
+import { SENTIMENT_COLORS } from '../lib/metrics';
+import { TERM_RANKINGS, TermRanking, TermStat, analyzeTerms } from '../lib/terms';
+
+const SIZE_OPTIONS: Array<{ id: string; label: string; sizes: number[] }> = [
+  { id: 'all', label: 'All', sizes: [1, 2, 3] },
+  { id: '1', label: 'Words', sizes: [1] },
+  { id: '2', label: 'Bigrams', sizes: [2] },
+  { id: '3', label: 'Trigrams', sizes: [3] }
+];
+
+const CLOUD_TERMS = 24;
+const TABLE_ROWS = 30;
+
+const termColor = (stat: TermStat) => (stat.score > 0 ? SENTIMENT_COLORS.Positive : SENTIMENT_COLORS.Negative);
+
+interface TermExplorerProps {
+  reviews: ScoredReview[];
+  selectedTerm: string | null;
+  onSelectTerm: (term: string | null) => void;
+}
+
+const TermExplorer: React.FC<TermExplorerProps> = ({ reviews, selectedTerm, onSelectTerm }) => {
+  const [ranking, setRanking] = useState<TermRanking>('log_odds');
+  const [sizeId, setSizeId] = useState('all');
+  const sizes = SIZE_OPTIONS.find(option => option.id === sizeId)!.sizes;
+
+  const terms = useMemo(
+    () => analyzeTerms(reviews, { ranking, sizes, limit: CLOUD_TERMS }),
+    [reviews, ranking, sizes]
+  );
+  const strongest = terms.reduce((max, stat) => Math.max(max, Math.abs(stat.score)), 0);
+  // Alphabetical order mixes both directions instead of drawing a positive and a negative block
+  const cloud = useMemo(() => [...terms].sort((a, b) => a.term.localeCompare(b.term)), [terms]);
+  const table = useMemo(
+    () => [...terms].sort((a, b) => Math.abs(b.score) - Math.abs(a.score)).slice(0, TABLE_ROWS),
+    [terms]
+  );
+
+  const toggle = (term: string) => onSelectTerm(term === selectedTerm ? null : term);
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-sm font-medium transition-all duration-300 ${
+      active ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white' : 'bg-white/10 text-white/70 hover:text-white'
+    }`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 50 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.85, duration: 0.8 }}
+      className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+        <h3 className="text-2xl font-bold flex items-center gap-3 text-white">
+          <Cloud className="w-7 h-7 text-sky-400" />
+          Keyword Explorer
+        </h3>
+        <div className="flex flex-wrap gap-4">
+          <div className="flex gap-1 bg-white/10 rounded-xl p-1">
+            {TERM_RANKINGS.map(option => (
+              <button key={option.id} onClick={() => setRanking(option.id)} className={toggleClass(ranking === option.id)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-1 bg-white/10 rounded-xl p-1">
+            {SIZE_OPTIONS.map(option => (
+              <button key={option.id} onClick={() => setSizeId(option.id)} className={toggleClass(sizeId === option.id)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {terms.length === 0 ? (
+        <p className="text-white/70">Not enough positive and negative reviews share repeated terms to rank them.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="flex flex-wrap items-center justify-center content-center gap-x-4 gap-y-2 min-h-[20rem] bg-white/5 rounded-2xl p-6">
+            {cloud.map(stat => (
+              <motion.button
+                key={stat.term}
+                whileHover={{ scale: 1.1 }}
+                onClick={() => toggle(stat.term)}
+                title={`${stat.positive_count} positive · ${stat.negative_count} negative · score ${stat.score}`}
+                className={`font-bold leading-tight rounded-lg px-1 ${selectedTerm === stat.term ? 'ring-2 ring-white bg-white/10' : ''}`}
+                style={{
+                  color: termColor(stat),
+                  fontSize: `${0.8 + (strongest ? Math.abs(stat.score) / strongest : 0) * 1.6}rem`
+                }}
+              >
+                {stat.term}
+              </motion.button>
+            ))}
+          </div>
+
+          <div className="max-h-[20rem] overflow-y-auto">
+            <table className="w-full text-sm text-white/90">
+              <thead className="sticky top-0 bg-purple-900/80 backdrop-blur text-white/70 text-xs uppercase tracking-wide">
+                <tr>
+                  <th className="text-left py-2 px-2">Term</th>
+                  <th className="text-right py-2 px-2">Positive</th>
+                  <th className="text-right py-2 px-2">Negative</th>
+                  <th className="text-right py-2 px-2">Reviews</th>
+                  <th className="text-right py-2 px-2">{ranking === 'log_odds' ? 'z-score' : 'TF-IDF Δ'}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {table.map(stat => (
+                  <tr
+                    key={stat.term}
+                    onClick={() => toggle(stat.term)}
+                    className={`border-b border-white/10 cursor-pointer hover:bg-white/10 ${selectedTerm === stat.term ? 'bg-white/15' : ''}`}
+                  >
+                    <td className="py-2 px-2 font-medium" style={{ color: termColor(stat) }}>{stat.term}</td>
+                    <td className="py-2 px-2 text-right">{stat.positive_count}</td>
+                    <td className="py-2 px-2 text-right">{stat.negative_count}</td>
+                    <td className="py-2 px-2 text-right">{stat.reviews}</td>
+                    <td className="py-2 px-2 text-right font-mono">{stat.score > 0 ? '+' : ''}{stat.score.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+      <p className="text-xs text-white/50 mt-4">
+        Terms are ranked by how strongly they separate positive from negative reviews. Click one to filter the Review Explorer.
+      </p>
+    </motion.div>
+  );
+};
+
+export default TermExplorer;
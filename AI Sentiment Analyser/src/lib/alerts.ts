@@ -0,0 +1,285 @@
+import { ScoredReview } from '../types';
+import { Granularity, ReviewBucket, bucketReviews } from './timeseries';
+import { clauses, clausesContain } from './terms';
+import { round } from './metrics';
+
+export type AlertMetric = 'sentiment_drop' | 'term_spike';
+export type AlertMethod = 'zscore' | 'cusum';
+export type AlertSeverity = 'warning' | 'critical';
+
+export const ALERT_METRICS: Array<{ id: AlertMetric; label: string }> = [
+  { id: 'sentiment_drop', label: 'Sentiment drop' },
+  { id: 'term_spike', label: 'Term spike' }
+];
+
+export const ALERT_METHODS: Array<{ id: AlertMethod; label: string }> = [
+  { id: 'zscore', label: 'Rolling z-score' },
+  { id: 'cusum', label: 'CUSUM' }
+];
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  metric: AlertMetric;
+  method: AlertMethod;
+  /** Product_Category to watch; null watches every category separately. */
+  category: string | null;
+  /** Phrase watched by term spikes; ignored by sentiment drops. */
+  term: string;
+  granularity: Granularity;
+  /** Trailing buckets that form the baseline. */
+  window: number;
+  /** The z-score to reach, or the CUSUM decision interval h. */
+  threshold: number;
+  /** Buckets with fewer reviews are neither tested nor used as baseline. */
+  min_reviews: number;
+}
+
+export interface Alert {
+  id: string;
+  rule_id: string;
+  rule_name: string;
+  metric: AlertMetric;
+  method: AlertMethod;
+  category: string;
+  term: string | null;
+  bucket_start: string;
+  bucket_end: string;
+  reviews: number;
+  /** Mean polarity, or the share of reviews mentioning the term. */
+  value: number;
+  baseline: number;
+  /** The bucket's z-score, or the CUSUM sum for CUSUM rules. */
+  statistic: number;
+  threshold: number;
+  severity: AlertSeverity;
+  message: string;
+  /** Negative reviews in the bucket, or those mentioning the term. */
+  review_ids: string[];
+}
+
+/** Allowance subtracted from each standardized shift before CUSUM accumulates it, in standard errors. */
+export const CUSUM_SLACK = 0.5;
+// An alert this many times past its threshold is critical
+const CRITICAL_FACTOR = 1.5;
+const MIN_BASELINE_BUCKETS = 2;
+// Keeps a perfectly flat baseline from turning any change into an infinite z-score
+const MIN_VARIANCE = 0.01;
+const UNCATEGORIZED = 'Uncategorized';
+
+const rule = (overrides: Partial<AlertRule> & Pick<AlertRule, 'id' | 'name'>): AlertRule => ({
+  enabled: true,
+  metric: 'sentiment_drop',
+  method: 'zscore',
+  category: null,
+  term: '',
+  granularity: 'week',
+  window: 4,
+  threshold: 2,
+  min_reviews: 3,
+  ...overrides
+});
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  rule({ id: 'sentiment-drop', name: 'Weekly sentiment drop' }),
+  rule({ id: 'sentiment-decline', name: 'Sustained sentiment decline', method: 'cusum', threshold: 4 }),
+  rule({ id: 'term-broken', name: 'Spike in "broken"', metric: 'term_spike', term: 'broken' }),
+  rule({ id: 'term-refund', name: 'Spike in "refund"', metric: 'term_spike', term: 'refund' })
+];
+
+export const createAlertRule = (): AlertRule => rule({ id: crypto.randomUUID(), name: 'New rule' });
+
+const periodLabel = (bucket: ReviewBucket, granularity: Granularity) =>
+  granularity === 'week' ? `in the week of ${bucket.start}` : granularity === 'day' ? `on ${bucket.label}` : `in ${bucket.label}`;
+
+/**
+ * One dataset's reviews grouped by category. Each category's buckets and their observed values are
+ * built the first time a rule needs that granularity or term and then kept, so editing or toggling
+ * rules only re-runs the statistics.
+ */
+export interface AlertSeries {
+  categories: Map<string, ScoredReview[]>;
+  buckets: Map<string, ReviewBucket[]>;
+  /** Per-bucket polarities or 0/1 term mentions, keyed by category, granularity and term. */
+  values: Map<string, number[][]>;
+  clauses: Map<ScoredReview, string[][]>;
+}
+
+export const buildAlertSeries = (reviews: ScoredReview[]): AlertSeries => {
+  const categories = new Map<string, ScoredReview[]>();
+  reviews.forEach(review => {
+    const category = review.Product_Category || UNCATEGORIZED;
+    const group = categories.get(category);
+    if (group) group.push(review);
+    else categories.set(category, [review]);
+  });
+  return { categories, buckets: new Map(), values: new Map(), clauses: new Map() };
+};
+
+const seriesBuckets = (series: AlertSeries, category: string, granularity: Granularity) => {
+  const key = `${category}|${granularity}`;
+  let buckets = series.buckets.get(key);
+  if (!buckets) {
+    buckets = bucketReviews(series.categories.get(category) ?? [], granularity);
+    series.buckets.set(key, buckets);
+  }
+  return buckets;
+};
+
+const mentions = (series: AlertSeries, review: ScoredReview, term: string) => {
+  let runs = series.clauses.get(review);
+  if (!runs) {
+    runs = clauses(review.Review_Text);
+    series.clauses.set(review, runs);
+  }
+  return clausesContain(runs, term);
+};
+
+const seriesValues = (series: AlertSeries, category: string, granularity: Granularity, term: string | null) => {
+  const key = `${category}|${granularity}|${term ?? ''}`;
+  let values = series.values.get(key);
+  if (!values) {
+    values = seriesBuckets(series, category, granularity).map(bucket =>
+      bucket.reviews.map(review => (term === null ? review.polarity : mentions(series, review, term) ? 1 : 0))
+    );
+    series.values.set(key, values);
+  }
+  return values;
+};
+
+interface Observation {
+  bucket: ReviewBucket;
+  values: number[];
+  sum: number;
+  sumOfSquares: number;
+}
+
+/**
+ * Mean and per-review variance of the pooled baseline. Term mentions are 0/1, so their share is
+ * smoothed with one pseudo-mention each way to keep an all-zero baseline from having no variance.
+ */
+const baselineStats = (baseline: Observation[], metric: AlertMetric) => {
+  let count = 0;
+  let sum = 0;
+  let sumOfSquares = 0;
+  baseline.forEach(entry => {
+    count += entry.values.length;
+    sum += entry.sum;
+    sumOfSquares += entry.sumOfSquares;
+  });
+  if (metric === 'term_spike') {
+    const share = (sum + 1) / (count + 2);
+    return { mean: share, variance: share * (1 - share) };
+  }
+  const average = sum / count;
+  const variance = (sumOfSquares - sum * average) / (count - 1);
+  return { mean: average, variance: Math.max(variance, MIN_VARIANCE) };
+};
+
+const observe = (bucket: ReviewBucket, values: number[]): Observation => ({
+  bucket,
+  values,
+  sum: values.reduce((total, value) => total + value, 0),
+  sumOfSquares: values.reduce((total, value) => total + value * value, 0)
+});
+
+const evaluateSeries = (alertSeries: AlertSeries, category: string, alertRule: AlertRule): Alert[] => {
+  const term = alertRule.term.trim().toLowerCase();
+  if (alertRule.metric === 'term_spike' && !term) return [];
+  const values = seriesValues(alertSeries, category, alertRule.granularity, alertRule.metric === 'term_spike' ? term : null);
+  const series: Array<Observation | null> = seriesBuckets(alertSeries, category, alertRule.granularity).map((bucket, index) =>
+    bucket.reviews.length >= Math.max(1, alertRule.min_reviews) ? observe(bucket, values[index]) : null
+  );
+
+  const alerts: Alert[] = [];
+  let cusum = 0;
+  series.forEach((observation, index) => {
+    if (!observation) return;
+    const baseline = series
+      .slice(Math.max(0, index - alertRule.window), index)
+      .filter((entry): entry is Observation => entry !== null);
+    if (baseline.length < MIN_BASELINE_BUCKETS) return;
+
+    const stats = baselineStats(baseline, alertRule.metric);
+    const value = observation.sum / observation.values.length;
+    const z = (value - stats.mean) / Math.sqrt(stats.variance / observation.values.length);
+    // Positive when the bucket moved the way the rule watches for
+    const shift = alertRule.metric === 'sentiment_drop' ? -z : z;
+
+    let statistic = z;
+    let strength = shift;
+    if (alertRule.method === 'cusum') {
+      cusum = Math.max(0, cusum + shift - CUSUM_SLACK);
+      statistic = cusum;
+      strength = cusum;
+    }
+    if (strength < alertRule.threshold) return;
+    // CUSUM restarts after it fires so one shift raises one alert
+    cusum = 0;
+
+    const { bucket } = observation;
+    const period = periodLabel(bucket, alertRule.granularity);
+    const measure = alertRule.method === 'cusum'
+      ? `CUSUM ${round(statistic, 2)} ≥ ${alertRule.threshold}`
+      : `z = ${round(statistic, 2)}`;
+    const message = alertRule.metric === 'term_spike'
+      ? `${category}: "${term}" in ${Math.round(value * 100)}% of reviews ${period}, against ${Math.round(stats.mean * 100)}% before (${measure})`
+      : `${category}: average polarity ${round(value, 3)} ${period}, against ${round(stats.mean, 3)} before (${measure})`;
+
+    alerts.push({
+      id: `${alertRule.id}:${category}:${bucket.start}`,
+      rule_id: alertRule.id,
+      rule_name: alertRule.name,
+      metric: alertRule.metric,
+      method: alertRule.method,
+      category,
+      term: alertRule.metric === 'term_spike' ? term : null,
+      bucket_start: bucket.start,
+      bucket_end: bucket.end,
+      reviews: bucket.reviews.length,
+      value: round(value, 3),
+      baseline: round(stats.mean, 3),
+      statistic: round(statistic, 2),
+      threshold: alertRule.threshold,
+      severity: strength >= alertRule.threshold * CRITICAL_FACTOR ? 'critical' : 'warning',
+      message,
+      review_ids: bucket.reviews
+        .filter((review, i) => (alertRule.metric === 'term_spike' ? observation.values[i] === 1 : review.textblob_label === 'Negative'))
+        .map(review => review.Review_ID)
+    });
+  });
+  return alerts;
+};
+
+/**
+ * Runs every enabled rule over the series from `buildAlertSeries`, one per category, and returns
+ * the triggered alerts newest first, critical before warning within a bucket.
+ */
+export const evaluateAlerts = (series: AlertSeries, rules: AlertRule[]): Alert[] =>
+  rules
+    .filter(alertRule => alertRule.enabled)
+    .flatMap(alertRule =>
+      [...series.categories.keys()]
+        .filter(category => alertRule.category === null || alertRule.category === category)
+        .flatMap(category => evaluateSeries(series, category, alertRule))
+    )
+    .sort((a, b) =>
+      b.bucket_start.localeCompare(a.bucket_start)
+      || (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1)
+      || a.category.localeCompare(b.category)
+    );
+
+/** The alerts as the JSON body a webhook receiver would get. */
+export const alertWebhookPayload = (alerts: Alert[], dataset: string, generatedAt = new Date().toISOString()) =>
+  JSON.stringify(
+    {
+      event: 'sentiment.alerts',
+      dataset,
+      generated_at: generatedAt,
+      alert_count: alerts.length,
+      alerts
+    },
+    null,
+    2
+  );
@@ -0,0 +1,146 @@
+import { AnalysisResults, CustomLexicon, ReviewRecord, ScoredReview } from '../types';
+import { scoreText } from './sentiment';
+import { lexiconResolver } from './customLexicon';
+import {
+  LABELS, SENTIMENT_COLORS, TOP_WORD_COUNT, countLabels, mean, round, satisfactionScore, satisfactionTrend, toPercentages
+} from './metrics';
+import { computeSegments } from './segments';
+import { AspectDictionary, DEFAULT_ASPECTS, extractAspects, summarizeAspects } from './aspects';
+import { distinctiveWords, indexWords } from './terms';
+import { detectLanguage, isScored, languagePack, summarizeLanguages } from './language';
+import { dominantEmotion, scoreEmotions, summarizeEmotions } from './emotions';
+import { CLASSIFIER_METHOD } from './evaluation';
+
+export interface AnalysisOptions {
+  aspects?: AspectDictionary;
+  /** User overrides layered over the built-in lexicon, optionally per Product_Category. */
+  lexicon?: CustomLexicon;
+}
+
+/**
+ * Detects each review's language and attaches sentiment scores from both methods using that
+ * language's lexicon. Reviews in a language without a pack are flagged and left unscored.
+ */
+export const scoreReviews = (reviews: ReviewRecord[], options: AnalysisOptions = {}): ScoredReview[] => {
+  const custom = options.lexicon;
+  const lexiconFor = custom ? lexiconResolver(custom) : undefined;
+  return reviews.map(review => {
+    const { language } = detectLanguage(review.Review_Text);
+    const pack = languagePack(language);
+    if (!pack) {
+      return {
+        ...review,
+        language,
+        unsupported_language: true,
+        polarity: 0,
+        subjectivity: 0,
+        vader_compound: 0,
+        textblob_label: 'Neutral',
+        vader_label: 'Neutral',
+        confidence: 0,
+        mixed: false,
+        sarcasm: false,
+        contributions: [],
+        aspects: [],
+        emotions: {},
+        dominant_emotion: null
+      };
+    }
+    const lexicon = lexiconFor ? lexiconFor(review.Product_Category, language) : pack.lexicon;
+    const score = scoreText(review.Review_Text, lexicon, pack);
+    const emotions = pack.emotions ? scoreEmotions(review.Review_Text, pack.emotions, pack) : {};
+    return {
+      ...review,
+      language,
+      polarity: round(score.polarity, 3),
+      subjectivity: round(score.subjectivity, 3),
+      vader_compound: round(score.compound, 3),
+      textblob_label: score.textblob_label,
+      vader_label: score.vader_label,
+      confidence: round(score.confidence, 2),
+      mixed: score.mixed,
+      sarcasm: score.sarcasm,
+      contributions: score.contributions.map(c => ({ ...c, weight: round(c.weight, 3) })),
+      aspects: extractAspects(review.Review_Text, options.aspects ?? DEFAULT_ASPECTS, lexicon, pack),
+      emotions,
+      dominant_emotion: dominantEmotion(emotions)
+    };
+  });
+};
+
+/**
+ * Aggregates already-scored reviews into the shape the dashboard renders. Reviews flagged for an
+ * unsupported language only count towards the language breakdown and stay in `reviews`.
+ */
+export const summarizeReviews = (all: ScoredReview[], options: AnalysisOptions = {}): AnalysisResults => {
+  const reviews = all.filter(isScored);
+  const total = reviews.length;
+
+  const textblobDistribution = countLabels(reviews.map(r => r.textblob_label));
+  const vaderDistribution = countLabels(reviews.map(r => r.vader_label));
+  const textblobPercentages = toPercentages(textblobDistribution, total);
+  const vaderPercentages = toPercentages(vaderDistribution, total);
+  // Only present while a trained classifier is applied to the reviews
+  const classified = reviews.flatMap(r => (r.classifier_label ? [r.classifier_label] : []));
+  const classifierPercentages = toPercentages(countLabels(classified), classified.length);
+
+  const satisfaction = satisfactionScore(textblobDistribution, total);
+  // Tokenized once here; the overall and per-segment word rankings only count
+  const words = indexWords(reviews);
+  const topWords = distinctiveWords(reviews, TOP_WORD_COUNT, words);
+
+  const byPolarity = [...reviews].sort((a, b) => b.polarity - a.polarity);
+  const highlight = (review: ScoredReview | undefined) => ({
+    id: review?.Review_ID ?? '',
+    text: review?.Review_Text ?? '',
+    polarity: review?.polarity ?? 0
+  });
+
+  return {
+    insights: {
+      total_reviews: total,
+      textblob_distribution: textblobDistribution,
+      vader_distribution: vaderDistribution,
+      textblob_percentages: textblobPercentages,
+      vader_percentages: vaderPercentages,
+      average_polarity: round(mean(reviews.map(r => r.polarity)), 3),
+      average_subjectivity: round(mean(reviews.map(r => r.subjectivity)), 3),
+      average_vader_compound: round(mean(reviews.map(r => r.vader_compound)), 3),
+      satisfaction_trend: satisfactionTrend(satisfaction),
+      satisfaction_score: satisfaction,
+      most_positive_review: highlight(byPolarity[0]),
+      most_negative_review: highlight(byPolarity[byPolarity.length - 1]),
+      top_positive_words: topWords.positive,
+      top_negative_words: topWords.negative
+    },
+    chart_data: {
+      sentiment_distribution: LABELS.map(label => ({
+        name: label,
+        value: textblobDistribution[label],
+        color: SENTIMENT_COLORS[label]
+      })),
+      polarity_scores: reviews.map(r => ({
+        Review_ID: r.Review_ID,
+        TB_Polarity: r.polarity,
+        VADER_Compound: r.vader_compound
+      })),
+      sentiment_comparison: [
+        { method: 'TextBlob', positive: textblobPercentages.Positive, negative: textblobPercentages.Negative, neutral: textblobPercentages.Neutral },
+        { method: 'VADER', positive: vaderPercentages.Positive, negative: vaderPercentages.Negative, neutral: vaderPercentages.Neutral },
+        ...(classified.length > 0
+          ? [{ method: CLASSIFIER_METHOD, positive: classifierPercentages.Positive, negative: classifierPercentages.Negative, neutral: classifierPercentages.Neutral }]
+          : [])
+      ]
+    },
+    segments: computeSegments(reviews, words),
+    aspects: summarizeAspects(reviews, options.aspects ?? DEFAULT_ASPECTS),
+    emotions: summarizeEmotions(reviews),
+    languages: summarizeLanguages(all),
+    reviews: all,
+    analysis_timestamp: new Date().toISOString()
+  };
+};
+
+/** Scores every review and aggregates the results into the shape the dashboard renders. */
+export const analyzeReviews = (reviews: ReviewRecord[], options: AnalysisOptions = {}): AnalysisResults =>
+  summarizeReviews(scoreReviews(reviews, options), options);
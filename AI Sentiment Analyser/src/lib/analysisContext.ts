@@ -0,0 +1,104 @@
+import { createContext, useContext } from 'react';
+import {
+  AnalysisResults, AnalysisRun, ChartType, CustomLexicon, Emotion, ExplorerFilters, HumanLabels, ReviewDataset, ScoredReview,
+  SegmentDimension, SentimentLabel
+} from '../types';
+import { AnalysisProgress } from './api';
+import { Alert, AlertRule } from './alerts';
+import { ClassifierModel } from './classifier';
+import { LabelChange } from './compare';
+import { QualityIssue } from './quality';
+import { Page } from './router';
+import { SatisfactionEstimate, SatisfactionFormula } from './satisfaction';
+import { DateRange } from './timeseries';
+import { SavedView } from './viewState';
+
+/**
+ * Everything the pages share: the run on screen and what is derived from it, the filters, the saved
+ * settings, and the actions that change them. Owned by `AnalysisProvider`.
+ */
+export interface AnalysisState {
+  /** The run as scored, before any filter; null until an analysis finishes or a run is opened. */
+  results: AnalysisResults | null;
+  /** `results` after the date range, quality exclusion, classifier and human labels. */
+  view: AnalysisResults | null;
+  dataset: ReviewDataset;
+  loading: boolean;
+  progress: AnalysisProgress | null;
+  runAnalysis: () => void;
+  cancelAnalysis: () => void;
+  /** Makes an uploaded file the dataset and analyzes it. */
+  importDataset: (dataset: ReviewDataset) => void;
+
+  page: Page;
+  navigate: (page: Page) => void;
+
+  runs: AnalysisRun[];
+  activeRunId: string | null;
+  /** Puts a saved run on screen and clears the filters that belonged to the previous one. */
+  openRun: (run: AnalysisRun) => void;
+  removeRun: (run: AnalysisRun) => void;
+
+  lexicon: CustomLexicon;
+  lexiconVersion: number;
+  /** Labels that changed when the lexicon was last edited, or null before any edit. */
+  labelChanges: LabelChange[] | null;
+  onLexiconChange: (lexicon: CustomLexicon) => void;
+  /** Product categories in the dataset, sorted. */
+  categories: string[];
+
+  qualityIssues: QualityIssue[];
+  excludedCount: number;
+  verifiedCount: number;
+  /** Kept reviews with human labels and classifier predictions, across the whole date range. */
+  allReviews: ScoredReview[];
+  /** Reviews in a supported language within the date range, with the model's own labels. */
+  evaluationReviews: ScoredReview[];
+  /** Reviews in a supported language on the current view. */
+  scoredReviews: ScoredReview[];
+  /** Kept reviews in a supported language across the whole run. */
+  timelineReviews: ScoredReview[];
+  satisfaction: SatisfactionEstimate;
+  alerts: Alert[];
+  alertRules: AlertRule[];
+  onAlertRulesChange: (rules: AlertRule[]) => void;
+  humanLabels: HumanLabels;
+  labelReview: (reviewId: string, label: SentimentLabel | null) => void;
+  classifier: ClassifierModel | null;
+  onClassifierChange: (model: ClassifierModel | null) => void;
+
+  chart: ChartType;
+  onChartChange: (chart: ChartType) => void;
+  dateRange: DateRange | null;
+  onDateRangeChange: (range: DateRange | null) => void;
+  term: string | null;
+  onTermChange: (term: string | null) => void;
+  emotion: Emotion | null;
+  onEmotionChange: (emotion: Emotion | null) => void;
+  filters: ExplorerFilters;
+  onFiltersChange: (filters: ExplorerFilters) => void;
+  segment: SegmentDimension;
+  onSegmentChange: (segment: SegmentDimension) => void;
+  formula: SatisfactionFormula;
+  onFormulaChange: (formula: SatisfactionFormula) => void;
+  excludeLowQuality: boolean;
+  onExcludeLowQualityChange: (exclude: boolean) => void;
+  preferHuman: boolean;
+  onPreferHumanChange: (prefer: boolean) => void;
+  /** Filters the review explorer and brings it on screen. */
+  showReviews: (filter: { term?: string; emotion?: Emotion }) => void;
+
+  savedViews: SavedView[];
+  applyView: (view: SavedView) => void;
+  saveCurrentView: (name: string) => void;
+  removeView: (view: SavedView) => void;
+  copyViewLink: () => void;
+}
+
+export const AnalysisContext = createContext<AnalysisState | null>(null);
+
+export const useAnalysis = (): AnalysisState => {
+  const state = useContext(AnalysisContext);
+  if (!state) throw new Error('useAnalysis must be used inside AnalysisProvider');
+  return state;
+};
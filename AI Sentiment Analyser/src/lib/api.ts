@@ -0,0 +1,83 @@
+import { AnalysisRun, ReviewDataset } from '../types';
+import { AnalysisOptions } from './analysis';
+import { ScoringControls, scoreInWorkers, summarizeInWorker } from './workerPool';
+
+export type AnalysisEngine = 'api' | 'browser';
+
+export interface AnalysisProgress {
+  stage: 'uploading' | 'scoring' | 'summarizing';
+  scored: number;
+  total: number;
+}
+
+export interface AnalysisControls {
+  onProgress?: (progress: AnalysisProgress) => void;
+  signal?: AbortSignal;
+}
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(path, init);
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new ApiError(response.status, body.error ?? `Request to ${path} failed`);
+  return body as T;
+};
+
+export const checkHealth = async () => {
+  try {
+    const health = await request<{ status: string }>('/api/health');
+    return health.status === 'ok';
+  } catch {
+    return false;
+  }
+};
+
+export const postAnalysis = (dataset: ReviewDataset, options: AnalysisOptions = {}, signal?: AbortSignal) =>
+  request<AnalysisRun>('/api/analyze', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ dataset: dataset.name, reviews: dataset.reviews, ...options }),
+    signal
+  });
+
+export const fetchRun = (id: string) => request<AnalysisRun>(`/api/results/${encodeURIComponent(id)}`);
+
+/**
+ * Analyzes through the local API server, falling back to in-browser scoring in a worker pool and a
+ * summary in its own worker when it is not running. Aborting the signal cancels the upload, the
+ * scoring run or the summary.
+ */
+export const analyzeDataset = async (
+  dataset: ReviewDataset,
+  options: AnalysisOptions = {},
+  { onProgress, signal }: AnalysisControls = {}
+): Promise<{ run: AnalysisRun; engine: AnalysisEngine }> => {
+  const total = dataset.reviews.length;
+  if (await checkHealth()) {
+    onProgress?.({ stage: 'uploading', scored: 0, total });
+    return { run: await postAnalysis(dataset, options, signal), engine: 'api' };
+  }
+
+  const scoring: ScoringControls = {
+    signal,
+    onProgress: ({ scored }) => onProgress?.({ stage: 'scoring', scored, total })
+  };
+  onProgress?.({ stage: 'scoring', scored: 0, total });
+  const scored = await scoreInWorkers(dataset.reviews, options, scoring);
+  onProgress?.({ stage: 'summarizing', scored: total, total });
+  const results = await summarizeInWorker(scored, scored, options, { signal });
+  return {
+    run: {
+      id: crypto.randomUUID(),
+      dataset: dataset.name,
+      lexicon_version: options.lexicon?.version ?? 0,
+      results
+    },
+    engine: 'browser'
+  };
+};
@@ -0,0 +1,78 @@
+import { AspectMention, AspectSummary, ScoredReview } from '../types';
+import {
+  ENGLISH_RULES, LanguageRules, Lexicon, labelFromCompound, compoundScore, scoreSentence, splitSentences, tokenizeSentence
+} from './sentiment';
+import { LEXICON } from './lexicon';
+import { mean, round } from './metrics';
+
+/** Aspect name → seed terms. Multi-word seeds match as phrases; a trailing "s" is also accepted. */
+export type AspectDictionary = Record<string, string[]>;
+
+export const DEFAULT_ASPECTS: AspectDictionary = {
+  price: ['price', 'cost', 'money', 'value', 'expensive', 'cheap', 'overpriced', 'affordable', 'affordability', 'penny', 'worth'],
+  quality: ['quality', 'build', 'material', 'durable', 'durability', 'construction', 'craftsmanship', 'flimsy', 'defect', 'sturdy', 'broke', 'broken', 'falls apart'],
+  delivery: ['shipping', 'delivery', 'delivered', 'arrived', 'arrive', 'package', 'packaging', 'shipped', 'courier'],
+  support: ['service', 'support', 'customer service', 'refund', 'return', 'helpful', 'unhelpful', 'rude', 'staff', 'wait times']
+};
+
+const EXAMPLES_PER_DIRECTION = 2;
+
+const mentions = (words: string, seed: string) => {
+  const phrase = seed.toLowerCase();
+  return words.includes(` ${phrase} `) || words.includes(` ${phrase}s `);
+};
+
+/** Attributes each sentence's sentiment to every aspect whose seed terms it mentions. */
+export const extractAspects = (
+  text: string,
+  dictionary: AspectDictionary = DEFAULT_ASPECTS,
+  lexicon: Lexicon = LEXICON,
+  rules: LanguageRules = ENGLISH_RULES
+): AspectMention[] =>
+  splitSentences(text).flatMap(sentence => {
+    const tokens = tokenizeSentence(sentence);
+    const words = ` ${tokens.filter(token => token !== ',').join(' ')} `;
+    const matched = Object.entries(dictionary)
+      .filter(([, seeds]) => seeds.some(seed => mentions(words, seed)))
+      .map(([aspect]) => aspect);
+    if (matched.length === 0) return [];
+
+    const score = round(compoundScore(scoreSentence(tokens, lexicon, rules), sentence), 3);
+    return matched.map(aspect => ({ aspect, snippet: sentence, score }));
+  });
+
+/** Mean sentence score per aspect for one review. */
+export const aspectScores = (review: ScoredReview): Record<string, number> => {
+  const grouped = new Map<string, number[]>();
+  review.aspects.forEach(({ aspect, score }) => {
+    const scores = grouped.get(aspect);
+    if (scores) scores.push(score);
+    else grouped.set(aspect, [score]);
+  });
+  return Object.fromEntries([...grouped.entries()].map(([aspect, scores]) => [aspect, round(mean(scores), 3)]));
+};
+
+export const summarizeAspects = (reviews: ScoredReview[], dictionary: AspectDictionary = DEFAULT_ASPECTS): AspectSummary[] =>
+  Object.keys(dictionary).map(aspect => {
+    const found = reviews.flatMap(review =>
+      review.aspects
+        .filter(mention => mention.aspect === aspect)
+        .map(mention => ({ review_id: review.Review_ID, snippet: mention.snippet, score: mention.score }))
+    );
+    const labels = found.map(mention => labelFromCompound(mention.score));
+    const byScore = [...found].sort((a, b) => b.score - a.score);
+
+    return {
+      aspect,
+      mentions: found.length,
+      reviews: new Set(found.map(mention => mention.review_id)).size,
+      average_sentiment: round(mean(found.map(mention => mention.score)), 3),
+      positive: labels.filter(label => label === 'Positive').length,
+      negative: labels.filter(label => label === 'Negative').length,
+      neutral: labels.filter(label => label === 'Neutral').length,
+      examples: [
+        ...byScore.filter(m => m.score > 0).slice(0, EXAMPLES_PER_DIRECTION),
+        ...byScore.reverse().filter(m => m.score < 0).slice(0, EXAMPLES_PER_DIRECTION)
+      ]
+    };
+  });
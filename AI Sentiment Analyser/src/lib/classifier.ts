@@ -0,0 +1,370 @@
+import { ScoredReview, SentimentLabel } from '../types';
+import { LABELS, fnv1a, round, seededRandom } from './metrics';
+import { extractNgrams } from './terms';
+import { DEFAULT_THRESHOLDS, RatingThresholds, referenceLabel } from './evaluation';
+import { isScored } from './language';
+
+export type ClassifierKind = 'naive_bayes' | 'logistic_regression';
+
+const MODEL_FORMAT = 'sentiment-classifier/1';
+
+export const CLASSIFIER_KINDS: Array<{ id: ClassifierKind; label: string }> = [
+  { id: 'naive_bayes', label: 'Multinomial Naive Bayes' },
+  { id: 'logistic_regression', label: 'Logistic regression (TF-IDF)' }
+];
+
+export interface TrainingSample {
+  review_id: string;
+  text: string;
+  label: SentimentLabel;
+  /** Whether the target came from a human label rather than the rating. */
+  human: boolean;
+}
+
+export interface FoldResult {
+  fold: number;
+  /** Held-out reviews in this fold. */
+  size: number;
+  accuracy: number;
+  macro_f1: number;
+}
+
+export interface HeldOutPrediction {
+  label: SentimentLabel;
+  /** P(Positive) − P(Negative). */
+  score: number;
+}
+
+export interface CrossValidation {
+  folds: FoldResult[];
+  /** Means across folds. */
+  accuracy: number;
+  macro_f1: number;
+  /**
+   * Every training review's prediction from the fold model that held it out, keyed by `heldOutKey`;
+   * absent on models saved before held-out predictions were kept.
+   */
+  held_out?: Record<string, HeldOutPrediction>;
+}
+
+interface NaiveBayesParameters {
+  kind: 'naive_bayes';
+  log_priors: number[];
+  /** log P(term | class), indexed [class][term]. */
+  log_likelihoods: number[][];
+}
+
+interface LogisticParameters {
+  kind: 'logistic_regression';
+  idf: number[];
+  /** Softmax weights, indexed [class][term]. */
+  weights: number[][];
+  bias: number[];
+}
+
+/** A trained classifier as saved to JSON; `classes` index every per-class array. */
+export type ClassifierModel = {
+  format: typeof MODEL_FORMAT;
+  trained_at: string;
+  samples: number;
+  human_samples: number;
+  classes: SentimentLabel[];
+  ngram_sizes: number[];
+  vocabulary: string[];
+  cross_validation: CrossValidation | null;
+} & (NaiveBayesParameters | LogisticParameters);
+
+export interface Prediction {
+  label: SentimentLabel;
+  probabilities: Record<SentimentLabel, number>;
+}
+
+export const MIN_TRAINING_SAMPLES = 10;
+export const DEFAULT_FOLDS = 5;
+
+const NGRAM_SIZES = [1, 2];
+const MIN_DOCUMENT_FREQUENCY = 2;
+const MAX_FEATURES = 5000;
+const LAPLACE = 1;
+const EPOCHS = 20;
+const LEARNING_RATE = 0.5;
+const L2 = 1e-4;
+const SEED = 42;
+
+type SparseVector = Array<[number, number]>;
+
+const shuffle = <T>(items: T[], next: () => number) => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(next() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+/** Scored reviews with a human label or a rating, as training targets; human labels win. */
+export const trainingSamples = (reviews: ScoredReview[], thresholds: RatingThresholds = DEFAULT_THRESHOLDS): TrainingSample[] =>
+  reviews.filter(isScored).flatMap(review => {
+    const label = referenceLabel(review, thresholds);
+    return label ? [{ review_id: review.Review_ID, text: review.Review_Text, label, human: review.human_label !== undefined }] : [];
+  });
+
+// The text hash keeps a model trained on one file from matching another file's reviews by ID alone
+const heldOutKey = (reviewId: string, text: string) => `${reviewId}:${fnv1a(text).toString(36)}`;
+
+/** Terms in at least MIN_DOCUMENT_FREQUENCY documents, most widespread first. */
+const buildVocabulary = (documents: string[][]) => {
+  const frequency = new Map<string, number>();
+  documents.forEach(terms => new Set(terms).forEach(term => frequency.set(term, (frequency.get(term) ?? 0) + 1)));
+  const entries = [...frequency.entries()];
+  const frequent = entries.filter(([, df]) => df >= MIN_DOCUMENT_FREQUENCY);
+  return (frequent.length > 0 ? frequent : entries)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_FEATURES)
+    .map(([term]) => term);
+};
+
+const termCounts = (terms: string[], index: Map<string, number>): SparseVector => {
+  const counts = new Map<number, number>();
+  terms.forEach(term => {
+    const position = index.get(term);
+    if (position !== undefined) counts.set(position, (counts.get(position) ?? 0) + 1);
+  });
+  return [...counts.entries()];
+};
+
+/** L2-normalized TF-IDF. */
+const tfidf = (counts: SparseVector, idf: number[]): SparseVector => {
+  const weighted = counts.map(([i, count]): [number, number] => [i, count * idf[i]]);
+  const norm = Math.sqrt(weighted.reduce((sum, [, value]) => sum + value * value, 0));
+  return norm > 0 ? weighted.map(([i, value]): [number, number] => [i, value / norm]) : weighted;
+};
+
+const softmax = (logits: number[]) => {
+  const max = Math.max(...logits);
+  const exps = logits.map(logit => Math.exp(logit - max));
+  const total = exps.reduce((sum, value) => sum + value, 0);
+  return exps.map(value => value / total);
+};
+
+const trainNaiveBayes = (vectors: SparseVector[], targets: number[], features: number): NaiveBayesParameters => {
+  const classCounts = LABELS.map(() => 0);
+  const termTotals = LABELS.map(() => new Array<number>(features).fill(0));
+  vectors.forEach((vector, n) => {
+    classCounts[targets[n]]++;
+    vector.forEach(([i, count]) => { termTotals[targets[n]][i] += count; });
+  });
+  return {
+    kind: 'naive_bayes',
+    log_priors: classCounts.map(count => Math.log((count + LAPLACE) / (vectors.length + LAPLACE * LABELS.length))),
+    log_likelihoods: termTotals.map(totals => {
+      const sum = totals.reduce((acc, count) => acc + count, 0);
+      return totals.map(count => Math.log((count + LAPLACE) / (sum + LAPLACE * features)));
+    })
+  };
+};
+
+/** Multinomial logistic regression fitted by SGD with L2 regularization on the touched weights. */
+const trainLogistic = (counts: SparseVector[], targets: number[], features: number): LogisticParameters => {
+  const frequency = new Array<number>(features).fill(0);
+  counts.forEach(vector => vector.forEach(([i]) => { frequency[i]++; }));
+  const idf = frequency.map(df => Math.log((1 + counts.length) / (1 + df)) + 1);
+  const vectors = counts.map(vector => tfidf(vector, idf));
+  const weights = LABELS.map(() => new Array<number>(features).fill(0));
+  const bias = LABELS.map(() => 0);
+  const next = seededRandom(SEED);
+  const order = vectors.map((_, n) => n);
+
+  for (let epoch = 0; epoch < EPOCHS; epoch++) {
+    const rate = LEARNING_RATE / (1 + epoch * 0.1);
+    shuffle(order, next).forEach(n => {
+      const vector = vectors[n];
+      const probabilities = softmax(bias.map((b, c) => vector.reduce((sum, [i, value]) => sum + weights[c][i] * value, b)));
+      probabilities.forEach((p, c) => {
+        const gradient = p - (targets[n] === c ? 1 : 0);
+        bias[c] -= rate * gradient;
+        vector.forEach(([i, value]) => { weights[c][i] -= rate * (gradient * value + L2 * weights[c][i]); });
+      });
+    });
+  }
+  return { kind: 'logistic_regression', idf, weights, bias };
+};
+
+/** Throws when there is too little to learn from. */
+export const checkTrainingSamples = (samples: TrainingSample[]) => {
+  if (samples.length < MIN_TRAINING_SAMPLES) throw new Error(`Need at least ${MIN_TRAINING_SAMPLES} labelled reviews to train`);
+  if (new Set(samples.map(sample => sample.label)).size < 2) {
+    throw new Error('Training reviews must cover at least two sentiment labels');
+  }
+};
+
+const fit = (samples: TrainingSample[], kind: ClassifierKind, crossValidation: CrossValidation | null): ClassifierModel => {
+  const documents = samples.map(sample => extractNgrams(sample.text, NGRAM_SIZES));
+  const vocabulary = buildVocabulary(documents);
+  const index = new Map(vocabulary.map((term, i) => [term, i]));
+  const counts = documents.map(terms => termCounts(terms, index));
+  const targets = samples.map(sample => LABELS.indexOf(sample.label));
+  const parameters = kind === 'naive_bayes'
+    ? trainNaiveBayes(counts, targets, vocabulary.length)
+    : trainLogistic(counts, targets, vocabulary.length);
+
+  return {
+    format: MODEL_FORMAT,
+    trained_at: new Date().toISOString(),
+    samples: samples.length,
+    human_samples: samples.filter(sample => sample.human).length,
+    classes: LABELS,
+    ngram_sizes: NGRAM_SIZES,
+    vocabulary,
+    cross_validation: crossValidation,
+    ...parameters
+  };
+};
+
+/** Fits a model on every sample; pass `crossValidation` to record how it did on held-out folds. */
+export const trainClassifier = (
+  samples: TrainingSample[],
+  kind: ClassifierKind,
+  crossValidation: CrossValidation | null = null
+): ClassifierModel => {
+  checkTrainingSamples(samples);
+  return fit(samples, kind, crossValidation);
+};
+
+// Vocabulary lookups are rebuilt once per model object rather than per prediction
+const indexes = new WeakMap<ClassifierModel, Map<string, number>>();
+
+export const predict = (model: ClassifierModel, text: string): Prediction => {
+  let index = indexes.get(model);
+  if (!index) {
+    index = new Map(model.vocabulary.map((term, i) => [term, i]));
+    indexes.set(model, index);
+  }
+  const counts = termCounts(extractNgrams(text, model.ngram_sizes), index);
+  const logits = model.kind === 'naive_bayes'
+    ? model.log_priors.map((prior, c) => counts.reduce((sum, [i, count]) => sum + count * model.log_likelihoods[c][i], prior))
+    : (() => {
+      const vector = tfidf(counts, model.idf);
+      return model.bias.map((b, c) => vector.reduce((sum, [i, value]) => sum + model.weights[c][i] * value, b));
+    })();
+  const probabilities = softmax(logits);
+  const best = probabilities.reduce((top, p, c) => (p > probabilities[top] ? c : top), 0);
+  return {
+    label: model.classes[best],
+    probabilities: Object.fromEntries(model.classes.map((label, c) => [label, probabilities[c]])) as Record<SentimentLabel, number>
+  };
+};
+
+const foldMetrics = (expected: SentimentLabel[], predicted: SentimentLabel[]) => {
+  const correct = expected.filter((label, i) => label === predicted[i]).length;
+  const present = LABELS.filter(label => expected.includes(label));
+  const f1s = present.map(label => {
+    const truePositives = expected.filter((e, i) => e === label && predicted[i] === label).length;
+    const predictedCount = predicted.filter(p => p === label).length;
+    const actualCount = expected.filter(e => e === label).length;
+    const precision = predictedCount ? truePositives / predictedCount : 0;
+    const recall = actualCount ? truePositives / actualCount : 0;
+    return precision + recall ? (2 * precision * recall) / (precision + recall) : 0;
+  });
+  return {
+    accuracy: expected.length ? correct / expected.length : 0,
+    macro_f1: f1s.length ? f1s.reduce((sum, f1) => sum + f1, 0) / f1s.length : 0
+  };
+};
+
+/**
+ * Shuffled k-fold cross-validation: each fold is held out once while a model trains on the rest.
+ * `onFold` fires after every fold so callers can report progress.
+ */
+export const crossValidate = (
+  samples: TrainingSample[],
+  kind: ClassifierKind,
+  k: number = DEFAULT_FOLDS,
+  onFold?: (completed: number, total: number) => void
+): CrossValidation => {
+  checkTrainingSamples(samples);
+  const folds = Math.max(2, Math.min(k, samples.length));
+  const shuffled = shuffle(samples, seededRandom(SEED));
+  const results: FoldResult[] = [];
+  const heldOut: Record<string, HeldOutPrediction> = {};
+
+  for (let fold = 0; fold < folds; fold++) {
+    const test = shuffled.filter((_, i) => i % folds === fold);
+    const train = shuffled.filter((_, i) => i % folds !== fold);
+    const model = fit(train, kind, null);
+    const predictions = test.map(sample => predict(model, sample.text));
+    test.forEach((sample, i) => {
+      heldOut[heldOutKey(sample.review_id, sample.text)] = {
+        label: predictions[i].label,
+        score: round(predictions[i].probabilities.Positive - predictions[i].probabilities.Negative, 3)
+      };
+    });
+    const metrics = foldMetrics(test.map(sample => sample.label), predictions.map(prediction => prediction.label));
+    results.push({ fold: fold + 1, size: test.length, accuracy: round(metrics.accuracy, 3), macro_f1: round(metrics.macro_f1, 3) });
+    onFold?.(fold + 1, folds);
+  }
+
+  return {
+    folds: results,
+    accuracy: round(results.reduce((sum, r) => sum + r.accuracy, 0) / results.length, 3),
+    macro_f1: round(results.reduce((sum, r) => sum + r.macro_f1, 0) / results.length, 3),
+    held_out: heldOut
+  };
+};
+
+/**
+ * Adds the model's label and a P(Positive) − P(Negative) score to every scored review, plus the
+ * held-out prediction for reviews the model was trained on.
+ */
+export const applyClassifier = (reviews: ScoredReview[], model: ClassifierModel): ScoredReview[] =>
+  reviews.map(review => {
+    if (!isScored(review)) return review;
+    const { label, probabilities } = predict(model, review.Review_Text);
+    const heldOut = model.cross_validation?.held_out?.[heldOutKey(review.Review_ID, review.Review_Text)];
+    return {
+      ...review,
+      classifier_label: label,
+      classifier_score: round(probabilities.Positive - probabilities.Negative, 3),
+      ...(heldOut && { classifier_held_out_label: heldOut.label, classifier_held_out_score: heldOut.score })
+    };
+  });
+
+export const serializeModel = (model: ClassifierModel) => JSON.stringify(model);
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'number' && Number.isFinite(item));
+
+const isMatrix = (value: unknown, rows: number, columns: number) =>
+  Array.isArray(value) && value.length === rows && value.every(row => isNumberArray(row) && row.length === columns);
+
+/** Parses and checks a model file saved by `serializeModel`. */
+export const parseClassifierJson = (text: string): ClassifierModel => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  const model = parsed as ClassifierModel;
+  if (typeof parsed !== 'object' || parsed === null || model.format !== MODEL_FORMAT) {
+    throw new Error(`Not a ${MODEL_FORMAT} model file`);
+  }
+  const classes = model.classes;
+  if (!Array.isArray(classes) || classes.length !== LABELS.length || !classes.every(label => LABELS.includes(label))) {
+    throw new Error('Model classes must be Positive, Negative and Neutral');
+  }
+  if (!Array.isArray(model.vocabulary) || !model.vocabulary.every(term => typeof term === 'string')) {
+    throw new Error('Model vocabulary must be a list of terms');
+  }
+  if (!isNumberArray(model.ngram_sizes)) throw new Error('Model ngram_sizes must be a list of numbers');
+  const features = model.vocabulary.length;
+  const valid = model.kind === 'naive_bayes'
+    ? isNumberArray(model.log_priors) && model.log_priors.length === classes.length
+      && isMatrix(model.log_likelihoods, classes.length, features)
+    : model.kind === 'logistic_regression'
+      && isNumberArray(model.idf) && model.idf.length === features
+      && isNumberArray(model.bias) && model.bias.length === classes.length
+      && isMatrix(model.weights, classes.length, features);
+  if (!valid) throw new Error('Model parameters do not match its vocabulary and classes');
+  return model;
+};
@@ -0,0 +1,52 @@
+import { AnalysisResults, ScoredReview, SentimentLabel } from '../types';
+import { LABELS, round } from './metrics';
+
+export interface LabelChange {
+  review_id: string;
+  text: string;
+  before: { textblob: SentimentLabel; vader: SentimentLabel; polarity: number };
+  after: { textblob: SentimentLabel; vader: SentimentLabel; polarity: number };
+}
+
+/** Reviews (matched by Review_ID) whose TextBlob or VADER label differs between two scorings. */
+export const diffLabels = (before: ScoredReview[], after: ScoredReview[]): LabelChange[] => {
+  const previous = new Map(before.map(review => [review.Review_ID, review]));
+  return after.flatMap(review => {
+    const old = previous.get(review.Review_ID);
+    if (!old || (old.textblob_label === review.textblob_label && old.vader_label === review.vader_label)) return [];
+    return [{
+      review_id: review.Review_ID,
+      text: review.Review_Text,
+      before: { textblob: old.textblob_label, vader: old.vader_label, polarity: old.polarity },
+      after: { textblob: review.textblob_label, vader: review.vader_label, polarity: review.polarity }
+    }];
+  });
+};
+
+export interface DistributionShift {
+  label: SentimentLabel;
+  before: number;
+  after: number;
+  /** Percentage points. */
+  delta: number;
+}
+
+export interface RunComparison {
+  satisfaction_delta: number;
+  polarity_delta: number;
+  textblob_shift: DistributionShift[];
+  vader_shift: DistributionShift[];
+  flipped: LabelChange[];
+}
+
+const distributionShift = (before: Record<SentimentLabel, number>, after: Record<SentimentLabel, number>): DistributionShift[] =>
+  LABELS.map(label => ({ label, before: before[label], after: after[label], delta: round(after[label] - before[label], 1) }));
+
+/** Satisfaction and distribution deltas (after − before) plus the reviews whose label flipped. */
+export const compareRuns = (before: AnalysisResults, after: AnalysisResults): RunComparison => ({
+  satisfaction_delta: round(after.insights.satisfaction_score - before.insights.satisfaction_score, 1),
+  polarity_delta: round(after.insights.average_polarity - before.insights.average_polarity, 3),
+  textblob_shift: distributionShift(before.insights.textblob_percentages, after.insights.textblob_percentages),
+  vader_shift: distributionShift(before.insights.vader_percentages, after.insights.vader_percentages),
+  flipped: diffLabels(before.reviews, after.reviews)
+});
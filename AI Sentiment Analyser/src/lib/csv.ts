@@ -0,0 +1,123 @@
+export interface CsvRow {
+  line: number;
+  fields: string[];
+}
+
+export interface CsvIssue {
+  line: number;
+  message: string;
+}
+
+export interface CsvParser {
+  /** Parses the next chunk of text and returns the rows it completed. */
+  push: (chunk: string) => CsvRow[];
+  /** Flushes the final row and reports an unterminated quote. */
+  end: () => CsvRow[];
+  issues: CsvIssue[];
+}
+
+/**
+ * Incremental RFC 4180 parser. Quoted fields may contain delimiters, escaped quotes and
+ * line breaks, and may be split across chunks; each row records the 1-based line on which it starts.
+ */
+export const createCsvParser = (delimiter = ','): CsvParser => {
+  const issues: CsvIssue[] = [];
+  let rows: CsvRow[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // A quote inside a quoted field is either an escaped "" or the closing quote; the next character decides
+  let quotePending = false;
+  let skipLineFeed = false;
+  let line = 1;
+  let rowStart = 1;
+  let quoteStart = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.some(value => value.trim() !== '')) rows.push({ line: rowStart, fields });
+    fields = [];
+    field = '';
+  };
+
+  const takeRows = () => {
+    const completed = rows;
+    rows = [];
+    return completed;
+  };
+
+  const push = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (quotePending) {
+        quotePending = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          quotePending = true;
+        } else {
+          if (char === '\n') line++;
+          field += char;
+        }
+      } else if (char === '"') {
+        if (field.trim() !== '') {
+          issues.push({ line, message: 'Unexpected quote inside an unquoted field' });
+        }
+        inQuotes = true;
+        quoteStart = line;
+      } else if (char === delimiter) {
+        fields.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        skipLineFeed = char === '\r';
+        endRow();
+        line++;
+        rowStart = line;
+      } else {
+        field += char;
+      }
+    }
+    return takeRows();
+  };
+
+  const end = () => {
+    if (quotePending) {
+      quotePending = false;
+      inQuotes = false;
+    }
+    if (inQuotes) {
+      issues.push({ line: quoteStart, message: 'Quoted field is never closed' });
+    } else if (field !== '' || fields.length > 0) {
+      endRow();
+    }
+    return takeRows();
+  };
+
+  return { push, end, issues };
+};
+
+/** Parses a complete RFC 4180 document; see `createCsvParser` for streaming input. */
+export const parseCsv = (text: string, delimiter = ','): { rows: CsvRow[]; issues: CsvIssue[] } => {
+  const parser = createCsvParser(delimiter);
+  const rows = [...parser.push(text), ...parser.end()];
+  return { rows, issues: parser.issues };
+};
+
+const quoteField = (value: string, delimiter: string) =>
+  value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** Serializes rows as RFC 4180 text with CRLF line endings, quoting only where needed. */
+export const stringifyCsv = (rows: Array<Array<string | number | undefined>>, delimiter = ',') =>
+  rows.map(row => row.map(value => quoteField(value === undefined ? '' : String(value), delimiter)).join(delimiter)).join('\r\n');
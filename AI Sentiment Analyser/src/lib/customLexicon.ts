@@ -0,0 +1,150 @@
+import { CustomLexicon, LexiconOverrides } from '../types';
+import { LEXICON } from './lexicon';
+import { Lexicon } from './sentiment';
+import { languagePack } from './language';
+
+export const MAX_VALENCE = 4;
+
+export const emptyOverrides = (): LexiconOverrides => ({ terms: {}, removed: [] });
+
+export const DEFAULT_CUSTOM_LEXICON: CustomLexicon = {
+  name: 'Custom lexicon',
+  version: 0,
+  updated_at: new Date(0).toISOString(),
+  ...emptyOverrides(),
+  categories: {}
+};
+
+/** Normalizes, lowercases and strips apostrophes the way the tokenizer does; null when the term could never match a token. */
+export const normalizeTerm = (raw: string): string | null => {
+  const term = raw.trim().normalize('NFC').toLowerCase().replace(/['’]/g, '');
+  return /^[\p{L}\p{M}]+$/u.test(term) ? term : null;
+};
+
+const applyOverrides = (base: Lexicon, overrides: LexiconOverrides): Lexicon => {
+  const lexicon = { ...base };
+  overrides.removed.forEach(term => delete lexicon[term]);
+  return Object.assign(lexicon, overrides.terms);
+};
+
+/**
+ * The language's built-in lexicon with global overrides, then the category's overrides, applied.
+ * Overrides are shared by every language; a term only ever matches text that contains it.
+ */
+export const resolveLexicon = (custom: CustomLexicon, category?: string, language = 'en'): Lexicon => {
+  const global = applyOverrides(languagePack(language)?.lexicon ?? LEXICON, custom);
+  const overrides = category === undefined ? undefined : custom.categories[category];
+  return overrides ? applyOverrides(global, overrides) : global;
+};
+
+/** Memoizes `resolveLexicon` per category and language for scoring a whole dataset. */
+export const lexiconResolver = (custom: CustomLexicon) => {
+  const cache = new Map<string, Lexicon>();
+  return (category: string | undefined, language = 'en') => {
+    const key = `${language}:${category ?? ''}`;
+    let lexicon = cache.get(key);
+    if (!lexicon) {
+      lexicon = resolveLexicon(custom, category, language);
+      cache.set(key, lexicon);
+    }
+    return lexicon;
+  };
+};
+
+const withoutTerm = (terms: Record<string, number>, term: string) =>
+  Object.fromEntries(Object.entries(terms).filter(([existing]) => existing !== term));
+
+export const setTerm = (overrides: LexiconOverrides, term: string, valence: number): LexiconOverrides => ({
+  terms: { ...overrides.terms, [term]: Math.max(-MAX_VALENCE, Math.min(MAX_VALENCE, valence)) },
+  removed: overrides.removed.filter(removed => removed !== term)
+});
+
+/** Drops any override for the term and stops the inherited entry from scoring. */
+export const removeTerm = (overrides: LexiconOverrides, term: string): LexiconOverrides => ({
+  terms: withoutTerm(overrides.terms, term),
+  removed: overrides.removed.includes(term) ? overrides.removed : [...overrides.removed, term].sort()
+});
+
+/** Restores the inherited weight, whether the term was re-weighted or removed. */
+export const resetTerm = (overrides: LexiconOverrides, term: string): LexiconOverrides => ({
+  terms: withoutTerm(overrides.terms, term),
+  removed: overrides.removed.filter(removed => removed !== term)
+});
+
+/**
+ * Applies an edit to the global overrides (`category` null) or to one category's,
+ * bumping the version so every saved change is distinguishable.
+ */
+export const updateLexicon = (
+  lexicon: CustomLexicon,
+  category: string | null,
+  edit: (overrides: LexiconOverrides) => LexiconOverrides
+): CustomLexicon => {
+  const stamp = { version: lexicon.version + 1, updated_at: new Date().toISOString() };
+  if (category === null) {
+    const { terms, removed } = edit(lexicon);
+    return { ...lexicon, ...stamp, terms, removed };
+  }
+  const next = edit(lexicon.categories[category] ?? emptyOverrides());
+  const categories = { ...lexicon.categories };
+  if (Object.keys(next.terms).length === 0 && next.removed.length === 0) delete categories[category];
+  else categories[category] = next;
+  return { ...lexicon, ...stamp, categories };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const validateOverrides = (value: unknown, path: string): LexiconOverrides => {
+  if (!isRecord(value)) throw new Error(`${path} must be an object`);
+  const terms = value.terms ?? {};
+  const removed = value.removed ?? [];
+  if (!isRecord(terms)) throw new Error(`${path}.terms must map terms to valences`);
+  if (!Array.isArray(removed)) throw new Error(`${path}.removed must be an array of terms`);
+
+  const normalized = emptyOverrides();
+  Object.entries(terms).forEach(([raw, valence]) => {
+    const term = normalizeTerm(raw);
+    if (!term) throw new Error(`${path}.terms: "${raw}" is not a single word`);
+    if (typeof valence !== 'number' || !Number.isFinite(valence) || Math.abs(valence) > MAX_VALENCE) {
+      throw new Error(`${path}.terms.${raw} must be a number between -${MAX_VALENCE} and ${MAX_VALENCE}`);
+    }
+    normalized.terms[term] = valence;
+  });
+  removed.forEach(raw => {
+    const term = typeof raw === 'string' ? normalizeTerm(raw) : null;
+    if (!term) throw new Error(`${path}.removed: ${JSON.stringify(raw)} is not a single word`);
+    if (!normalized.removed.includes(term)) normalized.removed.push(term);
+  });
+  return normalized;
+};
+
+/** Checks an untrusted value (an imported file or an API body) and returns a normalized lexicon. */
+export const validateLexicon = (value: unknown): CustomLexicon => {
+  if (!isRecord(value)) throw new Error('Lexicon must be a JSON object');
+  const categories = value.categories ?? {};
+  if (!isRecord(categories)) throw new Error('categories must map Product_Category names to overrides');
+
+  return {
+    name: typeof value.name === 'string' && value.name.trim() ? value.name.trim() : DEFAULT_CUSTOM_LEXICON.name,
+    version: typeof value.version === 'number' && Number.isInteger(value.version) ? value.version : 0,
+    updated_at: typeof value.updated_at === 'string' ? value.updated_at : new Date().toISOString(),
+    ...validateOverrides(value, 'lexicon'),
+    categories: Object.fromEntries(
+      Object.entries(categories).map(([category, overrides]) => [category, validateOverrides(overrides, `categories.${category}`)])
+    )
+  };
+};
+
+export const parseLexiconJson = (text: string): CustomLexicon => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  return validateLexicon(parsed);
+};
+
+export const isCustomized = (lexicon: CustomLexicon) =>
+  Object.keys(lexicon.terms).length > 0 || lexicon.removed.length > 0 || Object.keys(lexicon.categories).length > 0;
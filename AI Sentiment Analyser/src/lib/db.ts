@@ -0,0 +1,94 @@
+import { AnalysisRun, CustomLexicon, HumanLabels } from '../types';
+import { ClassifierModel } from './classifier';
+import { AlertRule, DEFAULT_ALERT_RULES } from './alerts';
+import { SavedView } from './viewState';
+
+const DB_NAME = 'sentiment-analyzer';
+const DB_VERSION = 6;
+
+type StoreName = 'lexicons' | 'runs' | 'labels' | 'models' | 'alerts' | 'views';
+
+const ACTIVE_LEXICON_KEY = 'active';
+const ACTIVE_MODEL_KEY = 'active';
+const ALERT_RULES_KEY = 'rules';
+
+let connection: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () => {
+  if (!connection) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('lexicons')) db.createObjectStore('lexicons');
+      if (!db.objectStoreNames.contains('runs')) db.createObjectStore('runs');
+      if (!db.objectStoreNames.contains('labels')) db.createObjectStore('labels');
+      if (!db.objectStoreNames.contains('models')) db.createObjectStore('models');
+      if (!db.objectStoreNames.contains('alerts')) db.createObjectStore('alerts');
+      if (!db.objectStoreNames.contains('views')) db.createObjectStore('views');
+    };
+    connection = promisify(request);
+    connection.catch(() => { connection = null; });
+  }
+  return connection;
+};
+
+const withStore = async <T>(store: StoreName, mode: IDBTransactionMode, run: (objects: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return promisify(run(db.transaction(store, mode).objectStore(store)));
+};
+
+const getRecord = <T>(store: StoreName, key: string) =>
+  withStore(store, 'readonly', objects => objects.get(key) as IDBRequest<T | undefined>);
+
+const putRecord = <T>(store: StoreName, key: string, value: T) =>
+  withStore(store, 'readwrite', objects => objects.put(value, key)).then(() => undefined);
+
+export const loadCustomLexicon = () => getRecord<CustomLexicon>('lexicons', ACTIVE_LEXICON_KEY);
+
+export const saveCustomLexicon = (lexicon: CustomLexicon) => putRecord('lexicons', ACTIVE_LEXICON_KEY, lexicon);
+
+export const saveRun = (run: AnalysisRun) => putRecord('runs', run.id, run);
+
+/** Every saved run, newest first. */
+export const listRuns = () =>
+  withStore('runs', 'readonly', objects => objects.getAll() as IDBRequest<AnalysisRun[]>).then(runs =>
+    runs.sort((a, b) => b.results.analysis_timestamp.localeCompare(a.results.analysis_timestamp))
+  );
+
+export const deleteRun = (id: string) => withStore('runs', 'readwrite', objects => objects.delete(id)).then(() => undefined);
+
+/**
+ * Human labels are stored per dataset name, so they carry over to every run of the same file. Each
+ * records a hash of its review's text, and `matchingLabels` drops those that no longer match.
+ */
+export const loadHumanLabels = (dataset: string) => getRecord<HumanLabels>('labels', dataset).then(labels => labels ?? {});
+
+export const saveHumanLabels = (dataset: string, labels: HumanLabels) => putRecord('labels', dataset, labels);
+
+export const loadClassifier = () => getRecord<ClassifierModel>('models', ACTIVE_MODEL_KEY);
+
+export const saveClassifier = (model: ClassifierModel) => putRecord('models', ACTIVE_MODEL_KEY, model);
+
+export const deleteClassifier = () =>
+  withStore('models', 'readwrite', objects => objects.delete(ACTIVE_MODEL_KEY)).then(() => undefined);
+
+export const loadAlertRules = () =>
+  getRecord<AlertRule[]>('alerts', ALERT_RULES_KEY).then(rules => rules ?? DEFAULT_ALERT_RULES);
+
+export const saveAlertRules = (rules: AlertRule[]) => putRecord('alerts', ALERT_RULES_KEY, rules);
+
+export const saveView = (view: SavedView) => putRecord('views', view.id, view);
+
+/** Saved views, alphabetically by name. */
+export const listViews = () =>
+  withStore('views', 'readonly', objects => objects.getAll() as IDBRequest<SavedView[]>).then(views =>
+    views.sort((a, b) => a.name.localeCompare(b.name))
+  );
+
+export const deleteView = (id: string) => withStore('views', 'readwrite', objects => objects.delete(id)).then(() => undefined);
@@ -0,0 +1,12 @@
+/** Saves text or bytes as a file through a temporary object URL. */
+export const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/** File-name-safe slug, e.g. "Sample Reviews.csv" → "sample_reviews_csv". */
+export const slugify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'export';
@@ -0,0 +1,28 @@
+import { AnalysisResults } from '../types';
+import { mean, round } from './metrics';
+
+type PolarityPoint = AnalysisResults['chart_data']['polarity_scores'][number];
+
+/** Most points a per-review line or area chart draws before neighbouring reviews are averaged. */
+export const MAX_CHART_POINTS = 120;
+
+/**
+ * Averages consecutive reviews into at most `maxPoints` buckets labelled by their first and last
+ * Review_ID (e.g. "R001–R050"), so large datasets keep their full shape instead of being truncated.
+ */
+export const downsamplePolarity = (points: PolarityPoint[], maxPoints = MAX_CHART_POINTS): PolarityPoint[] => {
+  if (points.length <= maxPoints) return points;
+  const size = Math.ceil(points.length / maxPoints);
+  const buckets: PolarityPoint[] = [];
+  for (let start = 0; start < points.length; start += size) {
+    const bucket = points.slice(start, start + size);
+    const first = bucket[0].Review_ID;
+    const last = bucket[bucket.length - 1].Review_ID;
+    buckets.push({
+      Review_ID: first === last ? first : `${first}–${last}`,
+      TB_Polarity: round(mean(bucket.map(point => point.TB_Polarity)), 3),
+      VADER_Compound: round(mean(bucket.map(point => point.VADER_Compound)), 3)
+    });
+  }
+  return buckets;
+};
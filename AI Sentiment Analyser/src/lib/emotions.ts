@@ -0,0 +1,123 @@
+import { Emotion, EmotionSummary, ScoredReview } from '../types';
+import { ENGLISH_RULES, LanguageRules, tokenize } from './sentiment';
+import { mean, round } from './metrics';
+
+export const EMOTIONS: Emotion[] = ['joy', 'anger', 'sadness', 'fear', 'surprise', 'trust'];
+
+export const EMOTION_COLORS: Record<Emotion, string> = {
+  joy: '#FACC15',
+  anger: '#EF4444',
+  sadness: '#3B82F6',
+  fear: '#8B5CF6',
+  surprise: '#F97316',
+  trust: '#10B981'
+};
+
+/** Term → association strength (0..1) with each emotion it evokes. */
+export type EmotionLexicon = Record<string, Partial<Record<Emotion, number>>>;
+
+// Hand-curated in the spirit of the NRC Emotion Lexicon, weighted towards product-review vocabulary.
+export const EMOTION_LEXICON: EmotionLexicon = {
+  // Joy
+  love: { joy: 1 }, loved: { joy: 1 }, loves: { joy: 1 }, happy: { joy: 0.9 }, glad: { joy: 0.8 },
+  delighted: { joy: 1 }, delightful: { joy: 0.9 }, enjoy: { joy: 0.8 }, enjoyed: { joy: 0.8 },
+  fantastic: { joy: 0.9 }, wonderful: { joy: 0.9 }, awesome: { joy: 0.9 }, great: { joy: 0.6 },
+  excellent: { joy: 0.7, trust: 0.3 }, perfect: { joy: 0.8, trust: 0.3 }, pleased: { joy: 0.8 }, fun: { joy: 0.8 },
+  beautiful: { joy: 0.8 }, satisfied: { joy: 0.6, trust: 0.3 }, thrilled: { joy: 1, surprise: 0.3 },
+  excited: { joy: 0.9, surprise: 0.3 }, favorite: { joy: 0.8 }, brilliant: { joy: 0.8 }, outstanding: { joy: 0.8 },
+  superb: { joy: 0.8 }, impressed: { joy: 0.6, surprise: 0.4 }, best: { joy: 0.7 }, enjoyable: { joy: 0.8 },
+  // Anger
+  angry: { anger: 1 }, furious: { anger: 1 }, annoyed: { anger: 0.8 }, annoying: { anger: 0.8 },
+  frustrated: { anger: 0.8, sadness: 0.3 }, frustrating: { anger: 0.8 }, outrageous: { anger: 0.9, surprise: 0.3 },
+  ridiculous: { anger: 0.7 }, rude: { anger: 0.8 }, scam: { anger: 0.9, fear: 0.3 }, fraud: { anger: 0.9, fear: 0.4 },
+  hate: { anger: 1 }, hated: { anger: 1 }, terrible: { anger: 0.6, sadness: 0.4 }, awful: { anger: 0.6, sadness: 0.4 },
+  worst: { anger: 0.8 }, unacceptable: { anger: 0.9 }, insulting: { anger: 0.9 }, irritating: { anger: 0.8 },
+  disgusting: { anger: 0.8 }, cheated: { anger: 0.9, sadness: 0.3 }, ripoff: { anger: 0.9 }, useless: { anger: 0.6 },
+  waste: { anger: 0.6, sadness: 0.3 }, overpriced: { anger: 0.5 }, horrible: { anger: 0.6, fear: 0.3 },
+  // Sadness
+  disappointed: { sadness: 0.9 }, disappointing: { sadness: 0.8 }, disappointment: { sadness: 0.9 },
+  sad: { sadness: 1 }, unhappy: { sadness: 0.8 }, regret: { sadness: 0.8 }, regrets: { sadness: 0.8 },
+  unfortunately: { sadness: 0.6 }, sadly: { sadness: 0.7 }, heartbroken: { sadness: 1 }, upset: { sadness: 0.6, anger: 0.4 },
+  broke: { sadness: 0.5, anger: 0.3 }, broken: { sadness: 0.5, anger: 0.3 }, poor: { sadness: 0.5 },
+  letdown: { sadness: 0.9 }, depressing: { sadness: 0.9 }, sorry: { sadness: 0.5 }, lost: { sadness: 0.5 },
+  // Fear
+  afraid: { fear: 1 }, scared: { fear: 1 }, worried: { fear: 0.8 }, worry: { fear: 0.7 }, concern: { fear: 0.5 },
+  concerned: { fear: 0.6 }, dangerous: { fear: 1 }, unsafe: { fear: 1 }, risk: { fear: 0.6 }, risky: { fear: 0.7 },
+  nervous: { fear: 0.8 }, anxious: { fear: 0.8 }, hazard: { fear: 0.9 }, fire: { fear: 0.7 }, overheating: { fear: 0.8 },
+  overheats: { fear: 0.8 }, toxic: { fear: 0.9 }, warning: { fear: 0.5 }, doubt: { fear: 0.4 }, sketchy: { fear: 0.6 },
+  // Surprise
+  surprised: { surprise: 1 }, surprising: { surprise: 0.9 }, surprisingly: { surprise: 0.8 }, unexpected: { surprise: 0.9 },
+  unexpectedly: { surprise: 0.9 }, shocked: { surprise: 0.9, fear: 0.3 }, shocking: { surprise: 0.9 },
+  amazed: { surprise: 0.8, joy: 0.5 }, amazing: { joy: 0.8, surprise: 0.4 }, astonished: { surprise: 1 },
+  wow: { surprise: 0.9, joy: 0.4 }, suddenly: { surprise: 0.7 }, exceeded: { surprise: 0.6, joy: 0.5 },
+  incredible: { joy: 0.6, surprise: 0.6 }, unbelievable: { surprise: 0.8 },
+  // Trust
+  reliable: { trust: 1 }, reliability: { trust: 0.9 }, trustworthy: { trust: 1 }, trust: { trust: 0.9 },
+  dependable: { trust: 1 }, sturdy: { trust: 0.6 }, durable: { trust: 0.7 }, solid: { trust: 0.6 },
+  consistent: { trust: 0.7 }, genuine: { trust: 0.8 }, authentic: { trust: 0.8 }, honest: { trust: 0.9 },
+  secure: { trust: 0.8 }, safe: { trust: 0.7 }, professional: { trust: 0.7 }, recommend: { trust: 0.8, joy: 0.4 },
+  recommended: { trust: 0.8, joy: 0.3 }, guarantee: { trust: 0.7 }, warranty: { trust: 0.5 }, accurate: { trust: 0.7 },
+  helpful: { trust: 0.6, joy: 0.3 }
+};
+
+/** Minimum summed association before an emotion counts as a review's dominant one. */
+const DOMINANT_THRESHOLD = 0.5;
+const EXAMPLE_COUNT = 3;
+const SCOPE = 3;
+
+/**
+ * Summed emotion associations for a text. Negated terms ("not happy") are skipped rather than
+ * flipped, since the opposite of an emotion is not another emotion.
+ */
+export const scoreEmotions = (
+  text: string,
+  lexicon: EmotionLexicon = EMOTION_LEXICON,
+  rules: LanguageRules = ENGLISH_RULES
+): Partial<Record<Emotion, number>> => {
+  const totals: Partial<Record<Emotion, number>> = {};
+  tokenize(text).forEach(tokens =>
+    tokens.forEach((token, index) => {
+      const associations = Object.prototype.hasOwnProperty.call(lexicon, token) ? lexicon[token] : undefined;
+      if (!associations) return;
+      const window = rules.negationFollows
+        ? tokens.slice(index + 1, index + 1 + SCOPE)
+        : tokens.slice(Math.max(0, index - SCOPE), index).reverse();
+      const stop = window.indexOf(',');
+      const clause = stop === -1 ? window : window.slice(0, stop);
+      if (clause.some(word => rules.negations.has(word))) return;
+      EMOTIONS.forEach(emotion => {
+        const weight = associations[emotion];
+        if (weight) totals[emotion] = round((totals[emotion] ?? 0) + weight, 2);
+      });
+    })
+  );
+  return totals;
+};
+
+/** The strongest emotion, or null when nothing clears the threshold; ties go to the earlier EMOTIONS entry. */
+export const dominantEmotion = (emotions: Partial<Record<Emotion, number>>): Emotion | null =>
+  EMOTIONS.reduce<Emotion | null>((best, emotion) => {
+    const score = emotions[emotion] ?? 0;
+    if (score < DOMINANT_THRESHOLD) return best;
+    return best === null || score > (emotions[best] ?? 0) ? emotion : best;
+  }, null);
+
+/** Per emotion: how many reviews express it, how many it dominates, and the strongest examples. */
+export const summarizeEmotions = (reviews: ScoredReview[]): EmotionSummary[] =>
+  EMOTIONS.map(emotion => {
+    const expressing = reviews.filter(review => (review.emotions?.[emotion] ?? 0) > 0);
+    const dominant = reviews.filter(review => review.dominant_emotion === emotion).length;
+    const byIntensity = [...expressing].sort((a, b) => (b.emotions?.[emotion] ?? 0) - (a.emotions?.[emotion] ?? 0));
+    return {
+      emotion,
+      reviews: expressing.length,
+      dominant,
+      percentage: reviews.length ? round((dominant / reviews.length) * 100, 1) : 0,
+      average_intensity: round(mean(expressing.map(review => review.emotions?.[emotion] ?? 0)), 2),
+      examples: byIntensity.slice(0, EXAMPLE_COUNT).map(review => ({
+        review_id: review.Review_ID,
+        text: review.Review_Text,
+        intensity: review.emotions?.[emotion] ?? 0
+      }))
+    };
+  });
@@ -0,0 +1,163 @@
+import { ScoredReview, SentimentLabel } from '../types';
+import { LABELS, round } from './metrics';
+
+export interface RatingThresholds {
+  /** Ratings at or below this are expected to be Negative. */
+  negativeMax: number;
+  /** Ratings at or above this are expected to be Positive. */
+  positiveMin: number;
+}
+
+export const DEFAULT_THRESHOLDS: RatingThresholds = { negativeMax: 2, positiveMin: 4 };
+
+export interface ScoringMethod {
+  method: string;
+  label: (review: ScoredReview) => SentimentLabel;
+  /** Signed score on a -1..1 scale, used to rank disagreements. */
+  score: (review: ScoredReview) => number;
+  /** Whether the reviews carry this method's output; methods without it always apply. */
+  available?: (reviews: ScoredReview[]) => boolean;
+}
+
+export const CLASSIFIER_METHOD = 'Classifier';
+
+export const SCORING_METHODS: ScoringMethod[] = [
+  { method: 'TextBlob', label: r => r.textblob_label, score: r => r.polarity },
+  { method: 'VADER', label: r => r.vader_label, score: r => r.vader_compound },
+  {
+    method: CLASSIFIER_METHOD,
+    // A review the model learned from is judged by the fold model that never saw it
+    label: r => r.classifier_held_out_label ?? r.classifier_label ?? 'Neutral',
+    score: r => r.classifier_held_out_score ?? r.classifier_score ?? 0,
+    available: reviews => reviews.some(r => r.classifier_label !== undefined)
+  }
+];
+
+export const availableMethods = (reviews: ScoredReview[]) =>
+  SCORING_METHODS.filter(method => !method.available || method.available(reviews));
+
+export interface ClassMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+export interface MethodEvaluation {
+  method: string;
+  support: number;
+  /** How many of the `support` reviews were judged against a human label instead of their rating. */
+  human_labeled: number;
+  accuracy: number;
+  macro_f1: number;
+  kappa: number;
+  per_class: Record<SentimentLabel, ClassMetrics>;
+  /** confusion[expected][predicted], both indexed in LABELS order. */
+  confusion: number[][];
+}
+
+export interface Disagreement {
+  review: ScoredReview;
+  expected: SentimentLabel;
+  predicted: SentimentLabel;
+  gap: number;
+}
+
+export const expectedLabel = (rating: number, thresholds: RatingThresholds): SentimentLabel => {
+  if (rating <= thresholds.negativeMax) return 'Negative';
+  if (rating >= thresholds.positiveMin) return 'Positive';
+  return 'Neutral';
+};
+
+/** The label a review should have had: its human label where one exists, otherwise the rating's. */
+export const referenceLabel = (review: ScoredReview, thresholds: RatingThresholds = DEFAULT_THRESHOLDS) =>
+  review.human_label ?? (review.Rating !== undefined ? expectedLabel(review.Rating, thresholds) : undefined);
+
+const referenced = (reviews: ScoredReview[], thresholds: RatingThresholds) =>
+  reviews.flatMap(review => {
+    const expected = referenceLabel(review, thresholds);
+    return expected ? [{ review, expected }] : [];
+  });
+
+// Where a human label stands in for the rating when measuring how far off a score is
+const LABEL_SCORES: Record<SentimentLabel, number> = { Positive: 1, Neutral: 0, Negative: -1 };
+
+const safeDivide = (numerator: number, denominator: number) => (denominator ? numerator / denominator : 0);
+
+/**
+ * Accuracy, per-class precision/recall/F1, Cohen's kappa and a confusion matrix against human labels
+ * where present and rating-derived labels otherwise.
+ */
+export const evaluateMethod = (
+  reviews: ScoredReview[],
+  method: ScoringMethod,
+  thresholds: RatingThresholds = DEFAULT_THRESHOLDS
+): MethodEvaluation => {
+  const confusion = LABELS.map(() => LABELS.map(() => 0));
+  const samples = referenced(reviews, thresholds);
+  samples.forEach(({ review, expected }) => {
+    confusion[LABELS.indexOf(expected)][LABELS.indexOf(method.label(review))]++;
+  });
+
+  const total = samples.length;
+  const correct = LABELS.reduce((sum, _, i) => sum + confusion[i][i], 0);
+  const rowTotals = confusion.map(row => row.reduce((sum, n) => sum + n, 0));
+  const columnTotals = LABELS.map((_, j) => confusion.reduce((sum, row) => sum + row[j], 0));
+
+  const perClass = Object.fromEntries(
+    LABELS.map((label, i) => {
+      const precision = safeDivide(confusion[i][i], columnTotals[i]);
+      const recall = safeDivide(confusion[i][i], rowTotals[i]);
+      return [label, {
+        precision: round(precision, 3),
+        recall: round(recall, 3),
+        f1: round(safeDivide(2 * precision * recall, precision + recall), 3),
+        support: rowTotals[i]
+      }];
+    })
+  ) as Record<SentimentLabel, ClassMetrics>;
+
+  const observed = safeDivide(correct, total);
+  const chance = total ? LABELS.reduce((sum, _, i) => sum + rowTotals[i] * columnTotals[i], 0) / (total * total) : 0;
+  const presentClasses = LABELS.filter((_, i) => rowTotals[i] > 0);
+
+  return {
+    method: method.method,
+    support: total,
+    human_labeled: samples.filter(({ review }) => review.human_label).length,
+    accuracy: round(observed, 3),
+    macro_f1: round(safeDivide(presentClasses.reduce((sum, label) => sum + perClass[label].f1, 0), presentClasses.length), 3),
+    kappa: round(chance === 1 ? 0 : (observed - chance) / (1 - chance), 3),
+    per_class: perClass,
+    confusion
+  };
+};
+
+/**
+ * Misclassified reviews, furthest first by the gap between the method's score and the scaled rating
+ * (or the human label as -1/0/1).
+ */
+export const mostDisagreeing = (
+  reviews: ScoredReview[],
+  method: ScoringMethod,
+  thresholds: RatingThresholds = DEFAULT_THRESHOLDS,
+  limit = 10
+): Disagreement[] => {
+  const samples = referenced(reviews, thresholds);
+  const min = reviews.reduce((low, r) => Math.min(low, r.Rating ?? Infinity), Infinity);
+  const max = reviews.reduce((high, r) => Math.max(high, r.Rating ?? -Infinity), -Infinity);
+  const scale = (rating: number) => (max > min ? ((rating - min) / (max - min)) * 2 - 1 : 0);
+  const target = (review: ScoredReview) =>
+    review.human_label ? LABEL_SCORES[review.human_label] : scale(review.Rating ?? 0);
+
+  return samples
+    .map(({ review, expected }) => ({
+      review,
+      expected,
+      predicted: method.label(review),
+      gap: round(Math.abs(target(review) - method.score(review)), 3)
+    }))
+    .filter(entry => entry.expected !== entry.predicted)
+    .sort((a, b) => b.gap - a.gap)
+    .slice(0, limit);
+};
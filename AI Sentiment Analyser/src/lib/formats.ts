@@ -0,0 +1,145 @@
+import { ReviewTable, TableRow, ImportIssue, tableFromCsv, tableFromRows } from './reviews';
+import { CsvRow, createCsvParser } from './csv';
+
+export type ImportFormat = 'csv' | 'tsv' | 'jsonl' | 'text';
+
+export const IMPORT_FORMATS: Array<{ format: ImportFormat; label: string }> = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'tsv', label: 'TSV (tab separated)' },
+  { format: 'jsonl', label: 'JSON Lines' },
+  { format: 'text', label: 'Plain text (one review per line)' }
+];
+
+export const ACCEPTED_EXTENSIONS = '.csv,.tsv,.tab,.jsonl,.ndjson,.txt';
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+  csv: 'csv',
+  tsv: 'tsv',
+  tab: 'tsv',
+  jsonl: 'jsonl',
+  ndjson: 'jsonl'
+};
+
+/** Picks a decoder from the UTF-16 byte-order marks Excel writes for "Unicode Text" exports; the decoder strips the BOM. */
+const decoderFor = (head: Uint8Array) => {
+  if (head[0] === 0xff && head[1] === 0xfe) return new TextDecoder('utf-16le');
+  if (head[0] === 0xfe && head[1] === 0xff) return new TextDecoder('utf-16be');
+  return new TextDecoder('utf-8');
+};
+
+/** Picks a format from the file extension, falling back to sniffing the first non-empty line. */
+export const detectFormat = (fileName: string, text: string): ImportFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  if (EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+
+  const firstLine = text.split(/\r?\n/).find(line => line.trim() !== '')?.trim() ?? '';
+  if (firstLine.startsWith('{')) return 'jsonl';
+  if (firstLine.includes('\t')) return 'tsv';
+  if (extension !== 'txt' && firstLine.includes(',')) return 'csv';
+  return 'text';
+};
+
+const stringify = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const tableFromJsonl = (text: string): ReviewTable => {
+  const headers: string[] = [];
+  const rows: TableRow[] = [];
+  const issues: ImportIssue[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    if (raw.trim() === '') return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      issues.push({ line, message: 'Invalid JSON' });
+      return;
+    }
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      issues.push({ line, message: 'Expected a JSON object' });
+      return;
+    }
+
+    const values: Record<string, string> = {};
+    Object.entries(parsed).forEach(([key, value]) => {
+      if (!headers.includes(key)) headers.push(key);
+      values[key] = stringify(value);
+    });
+    rows.push({ line, values });
+  });
+
+  return { headers, rows, issues };
+};
+
+export const tableFromText = (text: string): ReviewTable => {
+  const rows: TableRow[] = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    if (raw.trim() !== '') rows.push({ line: index + 1, values: { Review_Text: raw.trim() } });
+  });
+  return { headers: ['Review_Text'], rows, issues: [] };
+};
+
+export const parseReviewFile = (text: string, format: ImportFormat): ReviewTable => {
+  switch (format) {
+    case 'csv':
+      return tableFromCsv(text);
+    case 'tsv':
+      return tableFromCsv(text, '\t');
+    case 'jsonl':
+      return tableFromJsonl(text);
+    case 'text':
+      return tableFromText(text);
+  }
+};
+
+export interface ReadProgress {
+  loaded: number;
+  total: number;
+}
+
+/**
+ * Streams a file from disk, decoding it chunk by chunk and feeding CSV/TSV straight into the
+ * incremental parser so large files never block the page for a full parse. The decoded text is
+ * returned as well so the format can still be switched afterwards.
+ */
+export const readReviewFile = async (
+  file: File,
+  onProgress?: (progress: ReadProgress) => void
+): Promise<{ text: string; format: ImportFormat; table: ReviewTable }> => {
+  const decoder = decoderFor(new Uint8Array(await file.slice(0, 2).arrayBuffer()));
+  const reader = file.stream().getReader();
+  const parts: string[] = [];
+  const rows: CsvRow[] = [];
+  let format: ImportFormat | null = null;
+  let parser: ReturnType<typeof createCsvParser> | null = null;
+  let loaded = 0;
+
+  for (let done = false; !done;) {
+    const chunk = await reader.read();
+    done = chunk.done;
+    loaded += chunk.value?.length ?? 0;
+    const text = done ? decoder.decode() : decoder.decode(chunk.value, { stream: true });
+    if (text === '') continue;
+
+    parts.push(text);
+    if (format === null) {
+      format = detectFormat(file.name, text);
+      if (format === 'csv' || format === 'tsv') parser = createCsvParser(format === 'tsv' ? '\t' : ',');
+    }
+    if (parser) parser.push(text).forEach(row => rows.push(row));
+    onProgress?.({ loaded, total: file.size });
+  }
+
+  const text = parts.join('');
+  const resolved = format ?? detectFormat(file.name, text);
+  if (!parser) return { text, format: resolved, table: parseReviewFile(text, resolved) };
+
+  parser.end().forEach(row => rows.push(row));
+  return { text, format: resolved, table: tableFromRows(rows, parser.issues) };
+};
@@ -0,0 +1,106 @@
+import { HumanLabels, ReviewRecord, ScoredReview, SentimentLabel } from '../types';
+import { DEFAULT_THRESHOLDS, RatingThresholds, expectedLabel } from './evaluation';
+import { isScored } from './language';
+import { fnv1a } from './metrics';
+import { reviewFlags } from './reviewQueue';
+import { stringifyCsv } from './csv';
+
+export type GoldFormat = 'csv' | 'jsonl';
+
+export const GOLD_MIME_TYPES: Record<GoldFormat, string> = {
+  csv: 'text/csv',
+  jsonl: 'application/x-ndjson'
+};
+
+/** Keyboard shortcuts in the labeling queue; digits so one hand stays on the keys. */
+export const LABEL_SHORTCUTS: Record<string, SentimentLabel> = {
+  '1': 'Positive',
+  '2': 'Negative',
+  '3': 'Neutral'
+};
+
+export const SKIP_KEY = 's';
+export const UNDO_KEY = 'z';
+
+export const labelTextHash = (text: string) => fnv1a(text).toString(36);
+
+/**
+ * The stored labels that belong to these reviews. Labels are saved per file name, so a different
+ * upload under the same name would otherwise inherit them by Review_ID; the text hash rules that out.
+ */
+export const matchingLabels = (reviews: ReviewRecord[], labels: HumanLabels): HumanLabels => {
+  const matching: HumanLabels = {};
+  reviews.forEach(review => {
+    const human = labels[review.Review_ID];
+    if (human && (human.text_hash === undefined || human.text_hash === labelTextHash(review.Review_Text))) {
+      matching[review.Review_ID] = human;
+    }
+  });
+  return matching;
+};
+
+/** Copies each review's human label, if any, onto `human_label`. */
+export const attachHumanLabels = (reviews: ScoredReview[], labels: HumanLabels): ScoredReview[] =>
+  reviews.map(review => {
+    const human = labels[review.Review_ID];
+    return human ? { ...review, human_label: human.label } : review;
+  });
+
+/**
+ * Replaces both methods' labels with the human one where present, so label-based metrics
+ * (distributions, satisfaction, segments) count verified reviews by their corrected label.
+ * Scores are left as the model produced them.
+ */
+export const preferHumanLabels = (reviews: ScoredReview[]): ScoredReview[] =>
+  reviews.map(review =>
+    review.human_label ? { ...review, textblob_label: review.human_label, vader_label: review.human_label } : review
+  );
+
+export const disagreesWithRating = (review: ScoredReview, thresholds: RatingThresholds = DEFAULT_THRESHOLDS) =>
+  review.Rating !== undefined && expectedLabel(review.Rating, thresholds) !== review.textblob_label;
+
+// Lower goes first: rating disagreements, then doubtful labels, then everything else
+const priority = (review: ScoredReview, thresholds: RatingThresholds) =>
+  disagreesWithRating(review, thresholds) ? 0 : reviewFlags(review).length > 0 ? 1 : 2;
+
+/** Unlabeled scored reviews in the order a reviewer should see them; least confident first within each tier. */
+export const labelingQueue = (
+  reviews: ScoredReview[],
+  labels: HumanLabels,
+  thresholds: RatingThresholds = DEFAULT_THRESHOLDS
+): ScoredReview[] =>
+  reviews
+    .filter(review => isScored(review) && !labels[review.Review_ID])
+    .map(review => ({ review, priority: priority(review, thresholds) }))
+    .sort((a, b) =>
+      a.priority - b.priority
+      || (a.review.confidence ?? 1) - (b.review.confidence ?? 1)
+      || a.review.Review_ID.localeCompare(b.review.Review_ID)
+    )
+    .map(({ review }) => review);
+
+const GOLD_COLUMNS = [
+  'Review_ID', 'Review_Text', 'Rating', 'Product_Category', 'label', 'model_label', 'confidence', 'labeled_at'
+] as const;
+
+/**
+ * The human-labeled reviews as a gold dataset: the text, its corrected label and what the model
+ * said. JSONL rows keep the import field names, so the file can be loaded back as a dataset.
+ */
+export const exportGoldDataset = (reviews: ScoredReview[], labels: HumanLabels, format: GoldFormat) => {
+  const rows = reviews
+    .filter(review => labels[review.Review_ID])
+    .map(review => ({
+      Review_ID: review.Review_ID,
+      Review_Text: review.Review_Text,
+      Rating: review.Rating,
+      Product_Category: review.Product_Category,
+      label: labels[review.Review_ID].label,
+      model_label: review.textblob_label,
+      confidence: review.confidence,
+      labeled_at: labels[review.Review_ID].labeled_at
+    }));
+  return format === 'csv'
+    ? stringifyCsv([[...GOLD_COLUMNS], ...rows.map(row => GOLD_COLUMNS.map(column => row[column]))])
+    : rows.map(row => JSON.stringify(row)).join('\n');
+};
@@ -0,0 +1,149 @@
+import { LanguageSummary, ScoredReview } from '../types';
+import { tokenize } from './sentiment';
+import { countLabels, mean, round, satisfactionScore } from './metrics';
+import { DETECTION_ONLY, ENGLISH, GERMAN, HINDI, LanguagePack, SPANISH } from './languagePacks';
+
+export const UNKNOWN_LANGUAGE = 'und';
+
+export interface DetectedLanguage {
+  /** ISO 639-1 code, or "und" when the text has no letters to go on. */
+  language: string;
+  /** Share of the detection evidence behind the winning language, 0..1. */
+  confidence: number;
+}
+
+// Non-Latin scripts map to the language most reviews in that script are written in.
+const SCRIPTS: Array<{ language: string; pattern: RegExp }> = [
+  { language: 'hi', pattern: /\p{Script=Devanagari}/gu },
+  { language: 'ru', pattern: /\p{Script=Cyrillic}/gu },
+  { language: 'ar', pattern: /\p{Script=Arabic}/gu },
+  { language: 'he', pattern: /\p{Script=Hebrew}/gu },
+  { language: 'el', pattern: /\p{Script=Greek}/gu },
+  { language: 'th', pattern: /\p{Script=Thai}/gu },
+  { language: 'ko', pattern: /\p{Script=Hangul}/gu },
+  { language: 'ja', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu },
+  { language: 'zh', pattern: /\p{Script=Han}/gu }
+];
+
+const LATIN = /\p{Script=Latin}/gu;
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English', es: 'Spanish', de: 'German', hi: 'Hindi', fr: 'French', it: 'Italian', pt: 'Portuguese',
+  nl: 'Dutch', ru: 'Russian', ar: 'Arabic', he: 'Hebrew', el: 'Greek', th: 'Thai', ko: 'Korean',
+  ja: 'Japanese', zh: 'Chinese', [UNKNOWN_LANGUAGE]: 'Unknown'
+};
+
+export const languageName = (code: string) => LANGUAGE_NAMES[code] ?? code.toUpperCase();
+
+const packs = new Map<string, LanguagePack>();
+
+interface LatinProfile {
+  code: string;
+  markers: Set<string>;
+  terms: Set<string>;
+}
+
+// Built on first use and dropped whenever a pack is registered
+let latinProfiles: LatinProfile[] | null = null;
+
+const normalizeKeys = <T>(record: Record<string, T>) =>
+  Object.fromEntries(Object.entries(record).map(([key, value]) => [key.normalize('NFC').toLowerCase(), value]));
+
+const normalizeSet = (words: Iterable<string>) => new Set([...words].map(word => word.normalize('NFC').toLowerCase()));
+
+/**
+ * Adds or replaces the scorer for a language. Keys are NFC-normalized and lowercased so they match
+ * the tokenizer's output however the pack was typed.
+ */
+export const registerLanguagePack = (pack: LanguagePack) => {
+  packs.set(pack.code, {
+    ...pack,
+    lexicon: normalizeKeys(pack.lexicon),
+    emotions: pack.emotions && normalizeKeys(pack.emotions),
+    intensifiers: normalizeKeys(pack.intensifiers),
+    negations: normalizeSet(pack.negations),
+    contrastives: normalizeSet(pack.contrastives),
+    sarcasmCues: pack.sarcasmCues && normalizeSet(pack.sarcasmCues),
+    negativeOutcomes: pack.negativeOutcomes && normalizeSet(pack.negativeOutcomes),
+    markers: [...normalizeSet(pack.markers)]
+  });
+  LANGUAGE_NAMES[pack.code] = pack.name;
+  latinProfiles = null;
+};
+
+[ENGLISH, SPANISH, GERMAN, HINDI].forEach(registerLanguagePack);
+
+export const languagePack = (code: string): LanguagePack | undefined => packs.get(code);
+
+export const supportedLanguages = () => [...packs.values()].map(({ code, name }) => ({ code, name }));
+
+const countMatches = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+
+/** Scores each Latin-script language by its function words and, where it has a pack, its lexicon terms. */
+const detectLatin = (text: string): DetectedLanguage => {
+  if (!latinProfiles) {
+    latinProfiles = [
+      ...[...packs.values()]
+        .filter(pack => pack.script === 'Latin')
+        .map(pack => ({ code: pack.code, markers: new Set(pack.markers), terms: new Set(Object.keys(pack.lexicon)) })),
+      ...DETECTION_ONLY.map(profile => ({ code: profile.code, markers: new Set(profile.markers), terms: new Set<string>() }))
+    ];
+  }
+  const words = tokenize(text).flat().filter(token => token !== ',');
+  const scores = latinProfiles.map(profile => ({
+    language: profile.code,
+    score: words.reduce((sum, word) => sum + Number(profile.markers.has(word)) + Number(profile.terms.has(word)), 0)
+  }));
+  const total = scores.reduce((sum, { score }) => sum + score, 0);
+  // Ties go to the earliest candidate, so English wins when there is no evidence either way
+  const best = scores.reduce((top, entry) => (entry.score > top.score ? entry : top), scores[0]);
+  return { language: best.language, confidence: total ? round(best.score / total, 2) : 0 };
+};
+
+/**
+ * Offline language detection: the dominant Unicode script picks non-Latin languages outright,
+ * and Latin-script text is matched against each language's function words and lexicon.
+ */
+export const detectLanguage = (text: string): DetectedLanguage => {
+  const latin = countMatches(text, LATIN);
+  const scripts = SCRIPTS.map(({ language, pattern }) => ({ language, letters: countMatches(text, pattern) }));
+  const dominant = scripts.reduce((top, entry) => (entry.letters > top.letters ? entry : top), { language: 'Latin', letters: latin });
+
+  if (dominant.letters === 0) return { language: UNKNOWN_LANGUAGE, confidence: 0 };
+  if (dominant.language === 'Latin') return detectLatin(text);
+  // Japanese mixes kanji with kana; any kana at all rules out Chinese
+  if (dominant.language === 'zh' && scripts.some(entry => entry.language === 'ja' && entry.letters > 0)) {
+    return { language: 'ja', confidence: 1 };
+  }
+  const letters = latin + scripts.reduce((sum, entry) => sum + entry.letters, 0);
+  return { language: dominant.language, confidence: round(dominant.letters / letters, 2) };
+};
+
+/** Reviews flagged for an unsupported language carry placeholder scores and are left out of every aggregate. */
+export const isScored = (review: ScoredReview) => !review.unsupported_language;
+
+/** Review counts per detected language, with sentiment for the supported ones; most common first. */
+export const summarizeLanguages = (reviews: ScoredReview[]): LanguageSummary[] => {
+  const grouped = new Map<string, ScoredReview[]>();
+  reviews.forEach(review => {
+    const language = review.language ?? ENGLISH.code;
+    const group = grouped.get(language);
+    if (group) group.push(review);
+    else grouped.set(language, [review]);
+  });
+
+  return [...grouped.entries()]
+    .map(([language, group]) => {
+      const supported = group.every(isScored);
+      return {
+        language,
+        name: languageName(language),
+        supported,
+        reviews: group.length,
+        percentage: reviews.length ? round((group.length / reviews.length) * 100, 1) : 0,
+        satisfaction_score: supported ? satisfactionScore(countLabels(group.map(r => r.textblob_label)), group.length) : null,
+        average_compound: supported ? round(mean(group.map(r => r.vader_compound)), 3) : null
+      };
+    })
+    .sort((a, b) => b.reviews - a.reviews || a.name.localeCompare(b.name));
+};
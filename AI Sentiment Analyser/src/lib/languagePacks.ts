@@ -0,0 +1,127 @@
+import { ENGLISH_RULES, LanguageRules, Lexicon } from './sentiment';
+import { LEXICON } from './lexicon';
+import { EMOTION_LEXICON, EmotionLexicon } from './emotions';
+
+/**
+ * Everything the scorer needs for one language. Register extra packs with `registerLanguagePack`;
+ * reviews detected as a language without a pack are flagged rather than scored.
+ */
+export interface LanguagePack extends LanguageRules {
+  /** ISO 639-1 code. */
+  code: string;
+  name: string;
+  script: 'Latin' | 'Devanagari';
+  lexicon: Lexicon;
+  /** Frequent function words that identify the language during detection. */
+  markers: string[];
+  /** Optional; reviews in languages without one get no emotion scores. */
+  emotions?: EmotionLexicon;
+}
+
+export const ENGLISH: LanguagePack = {
+  code: 'en',
+  name: 'English',
+  script: 'Latin',
+  lexicon: LEXICON,
+  emotions: EMOTION_LEXICON,
+  ...ENGLISH_RULES,
+  markers: [
+    'the', 'and', 'is', 'was', 'it', 'this', 'that', 'with', 'for', 'of', 'to', 'my', 'have', 'are',
+    'they', 'you', 'its', 'i', 'a', 'in', 'on', 'would', 'be', 'as', 'at'
+  ]
+};
+
+export const SPANISH: LanguagePack = {
+  code: 'es',
+  name: 'Spanish',
+  script: 'Latin',
+  lexicon: {
+    bueno: 1.9, buena: 1.9, buenos: 1.9, buenas: 1.9, excelente: 3.2, genial: 2.8, perfecto: 3.0,
+    perfecta: 3.0, increíble: 2.8, encanta: 3.0, encantó: 3.0, fantástico: 2.6, maravilloso: 2.9,
+    recomiendo: 1.8, recomendable: 1.8, satisfecho: 1.8, satisfecha: 1.8, rápido: 1.0, rápida: 1.0,
+    fácil: 1.5, cómodo: 1.5, cómoda: 1.5, feliz: 2.5, contento: 2.2, contenta: 2.2, útil: 1.8,
+    duradero: 1.5, resistente: 1.3, barato: 0.8, malo: -2.5, mala: -2.5, malos: -2.5, malas: -2.5,
+    terrible: -2.5, horrible: -2.8, pésimo: -3.1, pésima: -3.1, decepcionado: -2.2, decepcionada: -2.2,
+    decepcionante: -2.3, roto: -2.0, rota: -2.0, defectuoso: -2.2, defectuosa: -2.2, lento: -1.0,
+    lenta: -1.0, caro: -1.2, inútil: -2.0, basura: -2.8, problema: -1.5, estafa: -3.0, peor: -2.5,
+    frágil: -1.4, incómodo: -1.6, incómoda: -1.6
+  },
+  negations: new Set(['no', 'nunca', 'jamás', 'ni', 'sin', 'tampoco', 'nada']),
+  intensifiers: {
+    muy: 0.293, realmente: 0.293, súper: 0.293, totalmente: 0.293, extremadamente: 0.293,
+    sumamente: 0.293, bastante: -0.293, algo: -0.293
+  },
+  contrastives: new Set(['pero', 'aunque', 'embargo', 'sino']),
+  markers: [
+    'el', 'la', 'los', 'las', 'de', 'del', 'que', 'y', 'es', 'muy', 'con', 'para', 'por', 'una', 'un',
+    'lo', 'se', 'me', 'mi', 'este', 'esta', 'producto', 'está', 'fue', 'más', 'como', 'al', 'su'
+  ]
+};
+
+export const GERMAN: LanguagePack = {
+  code: 'de',
+  name: 'German',
+  script: 'Latin',
+  lexicon: {
+    gut: 1.9, gute: 1.9, guter: 1.9, gutes: 1.9, toll: 2.6, tolle: 2.6, großartig: 3.0, hervorragend: 3.1,
+    ausgezeichnet: 3.1, perfekt: 3.0, zufrieden: 1.8, empfehlenswert: 2.0, schön: 2.2, schnell: 1.0,
+    liebe: 3.0, begeistert: 2.8, praktisch: 1.4, stabil: 1.3, günstig: 1.2, preiswert: 1.4, super: 2.5,
+    wunderbar: 2.9, einwandfrei: 2.4, schlecht: -2.5, schlechte: -2.5, schlechter: -2.5,
+    schrecklich: -2.8, furchtbar: -2.8, enttäuscht: -2.2, enttäuschend: -2.3, kaputt: -2.2, defekt: -2.2,
+    langsam: -1.0, teuer: -1.2, billig: -1.0, mangelhaft: -2.2, nutzlos: -2.0, ärgerlich: -2.0,
+    schlimm: -2.3, müll: -2.8, leider: -1.0, problem: -1.5, unzufrieden: -2.0, unbrauchbar: -2.4
+  },
+  negations: new Set(['nicht', 'kein', 'keine', 'keinen', 'keinem', 'keiner', 'nie', 'niemals', 'ohne', 'kaum']),
+  intensifiers: {
+    sehr: 0.293, wirklich: 0.293, total: 0.293, extrem: 0.293, absolut: 0.293, äußerst: 0.293,
+    besonders: 0.293, echt: 0.293, ziemlich: -0.293, etwas: -0.293
+  },
+  contrastives: new Set(['aber', 'jedoch', 'allerdings', 'trotzdem']),
+  markers: [
+    'der', 'die', 'das', 'und', 'ist', 'ich', 'sehr', 'mit', 'für', 'es', 'ein', 'eine', 'zu', 'auf',
+    'war', 'auch', 'den', 'dem', 'sich', 'mein', 'hat', 'wie', 'von', 'bei', 'nach', 'noch', 'nur'
+  ]
+};
+
+// Marathi and Nepali share the script; Devanagari text is treated as Hindi.
+export const HINDI: LanguagePack = {
+  code: 'hi',
+  name: 'Hindi',
+  script: 'Devanagari',
+  lexicon: {
+    अच्छा: 1.9, अच्छी: 1.9, अच्छे: 1.9, बढ़िया: 2.5, शानदार: 2.8, बेहतरीन: 3.0, उत्कृष्ट: 3.0, सुंदर: 2.5,
+    पसंद: 2.0, खुश: 2.5, संतुष्ट: 1.8, मजबूत: 1.5, मज़बूत: 1.5, तेज: 1.0, तेज़: 1.0, आसान: 1.5,
+    उपयोगी: 1.8, कमाल: 2.8, प्यार: 3.0, बुरा: -2.5, बुरी: -2.5, बुरे: -2.5, खराब: -2.5, ख़राब: -2.5,
+    बेकार: -2.5, घटिया: -3.0, टूटा: -2.0, टूटी: -2.0, निराश: -2.2, निराशाजनक: -2.3, धीमा: -1.0,
+    महंगा: -1.2, नकली: -2.5, धोखा: -3.0, समस्या: -1.5, दुखी: -2.2, बकवास: -2.8
+  },
+  negations: new Set(['नहीं', 'न', 'मत', 'बिना']),
+  intensifiers: { बहुत: 0.293, काफी: 0.293, काफ़ी: 0.293, बेहद: 0.293, अत्यंत: 0.293, एकदम: 0.293, थोड़ा: -0.293 },
+  contrastives: new Set(['लेकिन', 'पर', 'मगर', 'परंतु', 'किंतु']),
+  negationFollows: true,
+  markers: ['है', 'हैं', 'का', 'की', 'के', 'और', 'यह', 'में', 'से', 'को', 'था', 'थी', 'बहुत', 'भी', 'ही']
+};
+
+/** Latin-script languages recognised for flagging but without a lexicon. */
+export const DETECTION_ONLY: Array<{ code: string; name: string; markers: string[] }> = [
+  {
+    code: 'fr',
+    name: 'French',
+    markers: ['le', 'la', 'les', 'et', 'est', 'très', 'pour', 'avec', 'une', 'des', 'du', 'je', 'ce', 'cette', 'mais', 'pas', 'qui', 'produit', 'il', 'au', 'mon']
+  },
+  {
+    code: 'it',
+    name: 'Italian',
+    markers: ['il', 'lo', 'gli', 'e', 'è', 'molto', 'per', 'con', 'una', 'che', 'della', 'ma', 'questo', 'questa', 'prodotto', 'sono', 'di', 'ho', 'mi']
+  },
+  {
+    code: 'pt',
+    name: 'Portuguese',
+    markers: ['o', 'os', 'e', 'é', 'muito', 'para', 'com', 'uma', 'um', 'que', 'do', 'da', 'mas', 'produto', 'não', 'foi', 'em', 'na', 'meu', 'minha']
+  },
+  {
+    code: 'nl',
+    name: 'Dutch',
+    markers: ['de', 'het', 'een', 'en', 'is', 'zeer', 'heel', 'voor', 'met', 'van', 'maar', 'dit', 'deze', 'niet', 'ik', 'op', 'te', 'zijn', 'erg']
+  }
+];
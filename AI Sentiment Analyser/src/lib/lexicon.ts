@@ -0,0 +1,186 @@
+// Valences follow the VADER convention: -4 (most negative) to +4 (most positive).
+// The seed terms come from SimpleSentimentAnalyzer in sentiment_analyzer.py.
+export const LEXICON: Record<string, number> = {
+  // Positive
+  acceptable: 0.4,
+  adequate: 0.3,
+  adequately: 0.2,
+  affordable: 1.3,
+  affordability: 1.0,
+  amazing: 2.8,
+  awesome: 3.1,
+  beautiful: 2.9,
+  best: 3.2,
+  brilliant: 2.8,
+  comfortable: 1.5,
+  decent: 0.8,
+  delightful: 2.9,
+  durable: 1.5,
+  easy: 1.9,
+  enjoy: 2.2,
+  excellence: 2.8,
+  excellent: 3.2,
+  exceeded: 1.6,
+  exceeds: 1.6,
+  exceptional: 2.9,
+  fair: 1.1,
+  fantastic: 2.6,
+  fast: 1.0,
+  favorite: 2.0,
+  fine: 0.2,
+  flawless: 2.5,
+  flawlessly: 2.5,
+  glad: 2.0,
+  good: 1.9,
+  great: 3.1,
+  happy: 2.7,
+  helpful: 1.8,
+  impressed: 2.1,
+  impressive: 2.3,
+  incredible: 2.8,
+  innovation: 1.6,
+  innovative: 1.8,
+  love: 3.2,
+  loved: 2.9,
+  luxury: 1.8,
+  magnificent: 3.4,
+  marvelous: 2.9,
+  nice: 1.8,
+  ok: 0.3,
+  okay: 0.3,
+  outstanding: 3.0,
+  perfect: 2.7,
+  perfectly: 2.7,
+  pleased: 1.9,
+  practical: 1.2,
+  premium: 1.6,
+  protective: 0.8,
+  quick: 1.0,
+  quickly: 0.9,
+  reasonable: 0.4,
+  recommend: 1.5,
+  recommended: 1.5,
+  refinement: 1.2,
+  reliable: 1.7,
+  revolutionary: 2.0,
+  safely: 1.0,
+  satisfactory: 0.4,
+  satisfied: 1.8,
+  smooth: 1.3,
+  solid: 1.3,
+  sturdy: 1.6,
+  stylish: 1.7,
+  superb: 3.1,
+  superior: 2.3,
+  thoughtfully: 1.2,
+  versatile: 1.4,
+  well: 0.8,
+  wonderful: 2.7,
+  worth: 1.4,
+
+  // Negative
+  angry: -2.3,
+  annoying: -1.7,
+  avoid: -1.2,
+  awful: -2.0,
+  bad: -2.5,
+  broke: -1.8,
+  broken: -1.9,
+  cheap: -1.2,
+  cheaply: -1.4,
+  complaint: -1.4,
+  confusing: -1.3,
+  damaged: -1.9,
+  defective: -2.0,
+  defects: -1.7,
+  difficult: -1.5,
+  disappointed: -1.9,
+  disappointing: -2.2,
+  disaster: -3.1,
+  expensive: -0.9,
+  fail: -2.1,
+  failed: -2.3,
+  fails: -2.1,
+  fake: -2.0,
+  flimsy: -1.6,
+  fraud: -2.6,
+  frustrating: -2.2,
+  garbage: -2.0,
+  hate: -2.7,
+  horrible: -2.5,
+  issue: -1.0,
+  issues: -1.0,
+  junk: -2.0,
+  lacks: -1.0,
+  malfunction: -1.8,
+  malfunctions: -1.8,
+  mediocre: -1.0,
+  misleading: -1.7,
+  outdated: -1.2,
+  overpriced: -1.6,
+  poor: -2.1,
+  poorly: -1.9,
+  problem: -1.7,
+  problems: -1.7,
+  refund: -1.0,
+  regret: -1.9,
+  rude: -2.0,
+  scam: -2.6,
+  slow: -1.2,
+  subpar: -1.6,
+  terrible: -2.5,
+  uncomfortable: -1.6,
+  unhelpful: -1.8,
+  unreliable: -1.8,
+  unusable: -2.0,
+  useless: -1.8,
+  waste: -1.8,
+  worst: -3.1,
+  wrong: -2.1
+};
+
+export const NEGATIONS = new Set([
+  'not', 'no', 'never', 'nor', 'neither', 'without', 'hardly', 'barely',
+  'cannot', 'cant', 'couldnt', 'didnt', 'doesnt', 'dont', 'isnt', 'arent',
+  'wasnt', 'werent', 'wont', 'wouldnt', 'shouldnt'
+]);
+
+// Positive boosters amplify the following sentiment word, negative ones dampen it.
+export const INTENSIFIERS: Record<string, number> = {
+  absolutely: 0.293,
+  completely: 0.293,
+  deeply: 0.293,
+  definitely: 0.293,
+  especially: 0.293,
+  exceptionally: 0.293,
+  extremely: 0.293,
+  highly: 0.293,
+  incredibly: 0.293,
+  most: 0.293,
+  really: 0.293,
+  remarkably: 0.293,
+  so: 0.293,
+  super: 0.293,
+  totally: 0.293,
+  truly: 0.293,
+  utterly: 0.293,
+  very: 0.293,
+  fairly: -0.293,
+  kinda: -0.293,
+  marginally: -0.293,
+  partly: -0.293,
+  slightly: -0.293,
+  somewhat: -0.293
+};
+
+// Contrastive conjunctions: the clause after them carries more weight than the clause before.
+export const CONTRASTIVES = new Set(['but', 'however']);
+
+// Words that, alongside praise followed by a complaint, mark the praise as sarcastic ("oh great, another ...").
+export const SARCASM_CUES = new Set(['another', 'oh', 'yeah', 'sure', 'thanks', 'wow', 'again']);
+
+// Neutral on their own, so absent from LEXICON, but they count as the complaint that exposes sarcastic praise.
+export const NEGATIVE_OUTCOMES = new Set([
+  'stopped', 'died', 'dead', 'returned', 'returning', 'cracked', 'leaked', 'leaking', 'crashed', 'crashes',
+  'quit', 'fell', 'peeling', 'ripped', 'tore', 'burned', 'overheated'
+]);
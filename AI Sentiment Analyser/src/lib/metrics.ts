@@ -0,0 +1,53 @@
+import { SentimentLabel } from '../types';
+
+export const LABELS: SentimentLabel[] = ['Positive', 'Negative', 'Neutral'];
+
+export const SENTIMENT_COLORS: Record<SentimentLabel, string> = {
+  Positive: '#FF6B9D',
+  Negative: '#FF8E53',
+  Neutral: '#4ECDC4'
+};
+
+export const TOP_WORD_COUNT = 8;
+
+export const round = (value: number, digits: number) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+/** Deterministic PRNG (mulberry32), so folds, shuffles and resamples repeat across runs. */
+export const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/** 32-bit FNV-1a hash of a string. */
+export const fnv1a = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+  return hash >>> 0;
+};
+
+export const mean = (values: number[]) => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+export const countLabels = (labels: SentimentLabel[]) => {
+  const counts: Record<string, number> = { Positive: 0, Negative: 0, Neutral: 0 };
+  labels.forEach(label => counts[label]++);
+  return counts;
+};
+
+export const toPercentages = (counts: Record<string, number>, total: number) =>
+  Object.fromEntries(LABELS.map(label => [label, total ? round((counts[label] / total) * 100, 1) : 0]));
+
+/** (positive ratio − negative ratio + 1) × 50, as in sentiment_analyzer.py. */
+export const satisfactionScore = (counts: Record<string, number>, total: number) =>
+  total ? round(((counts.Positive - counts.Negative) / total + 1) * 50, 1) : 0;
+
+export const satisfactionTrend = (score: number) => {
+  if (score >= 70) return 'Highly Positive';
+  if (score >= 50) return 'Moderately Positive';
+  if (score >= 30) return 'Mixed';
+  return 'Negative';
+};
@@ -0,0 +1,225 @@
+import { ReviewRecord } from '../types';
+import { tokenize } from './sentiment';
+import { STOPWORDS } from './terms';
+import { parseReviewDate } from './timeseries';
+import { fnv1a, round, seededRandom } from './metrics';
+
+export type QualityFlag = 'duplicate' | 'near_duplicate' | 'short_text' | 'repeated_phrases' | 'empty_extreme' | 'location_burst';
+
+export const QUALITY_FLAGS: QualityFlag[] = [
+  'duplicate', 'near_duplicate', 'short_text', 'repeated_phrases', 'empty_extreme', 'location_burst'
+];
+
+export const QUALITY_FLAG_LABELS: Record<QualityFlag, string> = {
+  duplicate: 'Exact duplicate',
+  near_duplicate: 'Near duplicate',
+  short_text: 'Very short',
+  repeated_phrases: 'Repeated phrases',
+  empty_extreme: 'Extreme rating, no content',
+  location_burst: 'Location burst'
+};
+
+export interface QualityIssue {
+  /** Position of the review in the list that was assessed; IDs alone can repeat across copies. */
+  index: number;
+  review_id: string;
+  flags: QualityFlag[];
+  /** The earlier review this one copies, for exact and near duplicates. */
+  duplicate_of?: string;
+  /** MinHash estimate of the word-shingle Jaccard similarity with `duplicate_of`. */
+  similarity?: number;
+  reasons: string[];
+}
+
+export interface QualityOptions {
+  /** Estimated Jaccard similarity at which two reviews count as near duplicates. */
+  nearDuplicateThreshold?: number;
+  /** Reviews with fewer words are flagged as very short. */
+  minWords?: number;
+  /**
+   * Reviews from one location on one day that make a burst. Those before it are kept; the one that
+   * reaches it and every later one are flagged.
+   */
+  burstSize?: number;
+}
+
+export const DEFAULT_QUALITY_OPTIONS: Required<QualityOptions> = {
+  nearDuplicateThreshold: 0.7,
+  minWords: 4,
+  burstSize: 3
+};
+
+// Word bigrams: one substituted word in a 15-word review still leaves a Jaccard similarity of 0.75
+const SHINGLE_SIZE = 2;
+// 16 bands of 4 rows put the LSH candidate cut-off near a similarity of 0.5, well under the threshold
+const BANDS = 16;
+const ROWS = 4;
+const SEED = 11;
+// Each band bucket keeps this many earliest members to compare later ones against, so a bucket of
+// templated reviews costs linear rather than quadratic time
+const BUCKET_REPRESENTATIVES = 16;
+// A review repeating one of its own trigrams this often, or this poor in distinct words, reads as filler
+const PHRASE_LENGTH = 3;
+const REPEATED_PHRASE_COUNT = 3;
+const MIN_DISTINCT_RATIO = 0.4;
+const MIN_WORDS_FOR_RATIO = 8;
+const EXTREME_RATINGS = [1, 5];
+
+const words = (text: string) => tokenize(text).flat().filter(token => token !== ',');
+
+// The murmur3 finalizer spreads an FNV-1a hash across one hash function per seed
+const mix = (value: number) => {
+  let hash = value;
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  return (hash ^ (hash >>> 16)) >>> 0;
+};
+
+const shingles = (tokens: string[]) => {
+  if (tokens.length <= SHINGLE_SIZE) return [tokens.join(' ')];
+  const result = new Set<string>();
+  for (let start = 0; start + SHINGLE_SIZE <= tokens.length; start++) result.add(tokens.slice(start, start + SHINGLE_SIZE).join(' '));
+  return [...result];
+};
+
+/** One minimum per hash function over the review's word shingles. */
+const minhashSignature = (tokens: string[], seeds: number[]) => {
+  const hashes = shingles(tokens).map(fnv1a);
+  return seeds.map(seed => hashes.reduce((min, hash) => Math.min(min, mix(hash ^ seed)), 0xffffffff));
+};
+
+/** One band's rows hashed into a single bucket key; a collision only costs one extra comparison. */
+const bandKey = (signature: number[], band: number) => {
+  let hash = band;
+  for (let row = band * ROWS; row < (band + 1) * ROWS; row++) hash = mix(hash ^ signature[row]);
+  return hash;
+};
+
+const estimatedSimilarity = (a: number[], b: number[]) => {
+  let same = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i]) same++;
+  return same / a.length;
+};
+
+const repeatsPhrases = (tokens: string[]) => {
+  const counts = new Map<string, number>();
+  for (let start = 0; start + PHRASE_LENGTH <= tokens.length; start++) {
+    const gram = tokens.slice(start, start + PHRASE_LENGTH).join(' ');
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  if ([...counts.values()].some(count => count >= REPEATED_PHRASE_COUNT)) return true;
+  return tokens.length >= MIN_WORDS_FOR_RATIO && new Set(tokens).size / tokens.length < MIN_DISTINCT_RATIO;
+};
+
+/**
+ * Finds exact and near-duplicate reviews (MinHash over word bigrams, banded so each review is only
+ * compared with a few likely originals) and spam-like patterns. The first copy of a duplicate is kept; later copies are
+ * flagged. Returns one issue per flagged review, in input order.
+ */
+export const assessQuality = (reviews: ReviewRecord[], options: QualityOptions = {}): QualityIssue[] => {
+  const { nearDuplicateThreshold, minWords, burstSize } = { ...DEFAULT_QUALITY_OPTIONS, ...options };
+  const issues = new Map<number, QualityIssue>();
+  const flag = (index: number, value: QualityFlag, reason: string, copy?: Pick<QualityIssue, 'duplicate_of' | 'similarity'>) => {
+    const issue = issues.get(index) ?? { index, review_id: reviews[index].Review_ID, flags: [], reasons: [] };
+    if (!issue.flags.includes(value)) issue.flags.push(value);
+    issue.reasons.push(reason);
+    issues.set(index, { ...issue, ...copy });
+  };
+
+  const tokens = reviews.map(review => words(review.Review_Text));
+
+  const firstByText = new Map<string, number>();
+  tokens.forEach((review, index) => {
+    if (review.length === 0) return;
+    const key = review.join(' ');
+    const first = firstByText.get(key);
+    if (first === undefined) {
+      firstByText.set(key, index);
+      return;
+    }
+    flag(index, 'duplicate', `Same text as ${reviews[first].Review_ID}`, { duplicate_of: reviews[first].Review_ID, similarity: 1 });
+  });
+
+  const next = seededRandom(SEED);
+  const seeds = Array.from({ length: BANDS * ROWS }, () => Math.floor(next() * 0xffffffff));
+  const signatures = tokens.map(review => (review.length > 0 ? minhashSignature(review, seeds) : null));
+  // Each review is matched against the earliest sufficiently similar representative before it
+  const buckets = Array.from({ length: BANDS }, () => new Map<number, number[]>());
+  // The review each candidate was last collected for, so one shared by several bands is compared once
+  const collectedFor = new Int32Array(reviews.length).fill(-1);
+  signatures.forEach((signature, index) => {
+    if (!signature || issues.get(index)?.duplicate_of) return;
+    const keys = buckets.map((_, band) => bandKey(signature, band));
+    const earlier: number[] = [];
+    keys.forEach((key, band) =>
+      buckets[band].get(key)?.forEach(other => {
+        if (collectedFor[other] === index) return;
+        collectedFor[other] = index;
+        earlier.push(other);
+      })
+    );
+    earlier.sort((a, b) => a - b);
+    let match: { other: number; similarity: number } | undefined;
+    for (const other of earlier) {
+      const similarity = estimatedSimilarity(signature, signatures[other] ?? []);
+      if (similarity >= nearDuplicateThreshold) {
+        match = { other, similarity };
+        break;
+      }
+    }
+    if (match) {
+      const original = reviews[match.other].Review_ID;
+      flag(index, 'near_duplicate', `${Math.round(match.similarity * 100)}% similar to ${original}`, {
+        duplicate_of: original,
+        similarity: round(match.similarity, 2)
+      });
+    }
+    keys.forEach((key, band) => {
+      const bucket = buckets[band].get(key);
+      if (!bucket) buckets[band].set(key, [index]);
+      else if (bucket.length < BUCKET_REPRESENTATIVES) bucket.push(index);
+    });
+  });
+
+  reviews.forEach((review, index) => {
+    const reviewTokens = tokens[index];
+    if (reviewTokens.length < minWords) flag(index, 'short_text', `${reviewTokens.length} word${reviewTokens.length === 1 ? '' : 's'}`);
+    if (repeatsPhrases(reviewTokens)) flag(index, 'repeated_phrases', 'The same phrase repeats within the review');
+    if (
+      review.Rating !== undefined && EXTREME_RATINGS.includes(review.Rating)
+      && reviewTokens.every(token => STOPWORDS.has(token))
+    ) {
+      flag(index, 'empty_extreme', `${review.Rating}★ with no substantive words`);
+    }
+  });
+
+  const bursts = new Map<string, number[]>();
+  reviews.forEach((review, index) => {
+    const date = parseReviewDate(review.Review_Date);
+    const location = review.Reviewer_Location?.trim();
+    if (!date || !location) return;
+    const key = `${location.toLowerCase()}|${date.toISOString().slice(0, 10)}`;
+    const group = bursts.get(key);
+    if (group) group.push(index);
+    else bursts.set(key, [index]);
+  });
+  bursts.forEach(group => {
+    if (group.length < burstSize) return;
+    const { Reviewer_Location, Review_Date } = reviews[group[0]];
+    group.slice(burstSize - 1).forEach((index, offset) =>
+      flag(index, 'location_burst', `Review ${burstSize + offset} of ${group.length} from ${Reviewer_Location} on ${Review_Date}`)
+    );
+  });
+
+  return [...issues.entries()].sort(([a], [b]) => a - b).map(([, issue]) => issue);
+};
+
+/**
+ * Drops the reviews that have a quality issue. Matching is by position, so `reviews` must be the list
+ * the issues were assessed on; a duplicate that shares its original's ID still keeps the original.
+ */
+export const excludeFlagged = <T extends ReviewRecord>(reviews: T[], issues: QualityIssue[]): T[] => {
+  if (issues.length === 0) return reviews;
+  const flagged = new Set(issues.map(issue => issue.index));
+  return reviews.filter((_, index) => !flagged.has(index));
+};
@@ -0,0 +1,213 @@
+import { AnalysisResults } from '../types';
+import { LABELS, SENTIMENT_COLORS } from './metrics';
+import { LEXICON } from './lexicon';
+import { DateRange } from './timeseries';
+
+export type ReportSection = 'metrics' | 'charts' | 'words' | 'extremes' | 'methodology';
+
+export const REPORT_SECTIONS: Array<{ section: ReportSection; label: string }> = [
+  { section: 'metrics', label: 'Key metrics' },
+  { section: 'charts', label: 'Charts' },
+  { section: 'words', label: 'Top words' },
+  { section: 'extremes', label: 'Most positive & negative reviews' },
+  { section: 'methodology', label: 'Methodology' }
+];
+
+export interface ReportChart {
+  title: string;
+  /** Standalone SVG markup (with xmlns) serialized from the rendered chart. */
+  svg: string;
+  legend: Array<{ label: string; color: string }>;
+}
+
+export interface ReportOptions {
+  sections: ReportSection[];
+  charts: ReportChart[];
+  dataset: string;
+  lexiconVersion: number;
+  dateRange: DateRange | null;
+}
+
+const escapeHtml = (value: string | number) =>
+  String(value).replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] ?? char);
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1f2937; margin: 0; padding: 40px; background: #fff; }
+  header { border-bottom: 4px solid #a855f7; padding-bottom: 16px; margin-bottom: 32px; }
+  h1 { margin: 0 0 8px; font-size: 28px; color: #6b21a8; }
+  h2 { font-size: 20px; color: #6b21a8; margin: 0 0 16px; }
+  section { margin-bottom: 36px; page-break-inside: avoid; break-inside: avoid; }
+  .meta { color: #6b7280; font-size: 13px; }
+  .cards { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; }
+  .card { border-radius: 12px; padding: 14px; color: #fff; }
+  .card .label { font-size: 12px; opacity: 0.9; }
+  .card .value { font-size: 24px; font-weight: 700; margin-top: 4px; }
+  .card .sub { font-size: 11px; opacity: 0.85; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; margin-top: 16px; }
+  th, td { text-align: left; padding: 6px 10px; border-bottom: 1px solid #e5e7eb; }
+  th { color: #6b7280; text-transform: uppercase; font-size: 11px; letter-spacing: 0.04em; }
+  .chart { margin-bottom: 24px; page-break-inside: avoid; break-inside: avoid; }
+  .chart h3 { font-size: 15px; margin: 0 0 8px; }
+  .chart svg { max-width: 100%; height: auto; }
+  .legend { display: flex; gap: 16px; font-size: 12px; margin-top: 4px; }
+  .legend span::before { content: ''; display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 6px; background: var(--swatch); }
+  .words { display: grid; grid-template-columns: 1fr 1fr; gap: 24px; }
+  .chip { display: inline-block; padding: 4px 10px; border-radius: 999px; margin: 0 6px 6px 0; font-size: 13px; }
+  .chip.positive { background: #dcfce7; color: #166534; }
+  .chip.negative { background: #fee2e2; color: #991b1b; }
+  blockquote { margin: 0 0 16px; padding: 12px 16px; border-left: 4px solid; border-radius: 8px; background: #f9fafb; }
+  blockquote footer { font-size: 12px; color: #6b7280; margin-top: 6px; }
+  .methodology p, .methodology li { font-size: 13px; line-height: 1.6; }
+  @page { margin: 16mm; }
+  @media print { body { padding: 0; } }
+`;
+
+const metricsSection = ({ insights }: AnalysisResults) => {
+  const cards = [
+    { label: 'Total Reviews', value: insights.total_reviews, sub: '', color: '#3b82f6' },
+    { label: 'Satisfaction Score', value: `${insights.satisfaction_score}/100`, sub: insights.satisfaction_trend, color: '#10b981' },
+    { label: 'Positive Sentiment', value: `${insights.textblob_percentages.Positive}%`, sub: '', color: '#ec4899' },
+    { label: 'Negative Sentiment', value: `${insights.textblob_percentages.Negative}%`, sub: '', color: '#f97316' }
+  ];
+  return `
+    <section>
+      <h2>Key Metrics</h2>
+      <div class="cards">
+        ${cards.map(card => `
+          <div class="card" style="background: ${card.color}">
+            <div class="label">${escapeHtml(card.label)}</div>
+            <div class="value">${escapeHtml(card.value)}</div>
+            <div class="sub">${escapeHtml(card.sub)}</div>
+          </div>`).join('')}
+      </div>
+      <table>
+        <thead><tr><th>Metric</th><th>TextBlob</th><th>VADER</th></tr></thead>
+        <tbody>
+          ${LABELS.map(label => `
+            <tr>
+              <td>${label}</td>
+              <td>${insights.textblob_distribution[label]} (${insights.textblob_percentages[label]}%)</td>
+              <td>${insights.vader_distribution[label]} (${insights.vader_percentages[label]}%)</td>
+            </tr>`).join('')}
+          <tr><td>Average score</td><td>polarity ${insights.average_polarity}</td><td>compound ${insights.average_vader_compound}</td></tr>
+          <tr><td>Average subjectivity</td><td>${insights.average_subjectivity}</td><td>—</td></tr>
+        </tbody>
+      </table>
+    </section>`;
+};
+
+const chartsSection = (charts: ReportChart[]) => `
+  <section>
+    <h2>Charts</h2>
+    ${charts.map(chart => `
+      <div class="chart">
+        <h3>${escapeHtml(chart.title)}</h3>
+        ${chart.svg}
+        <div class="legend">
+          ${chart.legend.map(item => `<span style="--swatch: ${item.color}">${escapeHtml(item.label)}</span>`).join('')}
+        </div>
+      </div>`).join('')}
+  </section>`;
+
+const wordsSection = ({ insights }: AnalysisResults) => `
+  <section>
+    <h2>Top Words</h2>
+    <div class="words">
+      <div>
+        <h3>Positive</h3>
+        ${insights.top_positive_words.map(word => `<span class="chip positive">${escapeHtml(word)}</span>`).join('') || '—'}
+      </div>
+      <div>
+        <h3>Negative</h3>
+        ${insights.top_negative_words.map(word => `<span class="chip negative">${escapeHtml(word)}</span>`).join('') || '—'}
+      </div>
+    </div>
+  </section>`;
+
+const extremesSection = ({ insights }: AnalysisResults) => {
+  const quote = (review: AnalysisResults['insights']['most_positive_review'], title: string, color: string) => `
+    <blockquote style="border-color: ${color}">
+      <strong>${title}</strong>
+      <p>${escapeHtml(review.text)}</p>
+      <footer>${escapeHtml(review.id)} · polarity ${review.polarity}</footer>
+    </blockquote>`;
+  return `
+    <section>
+      <h2>Review Highlights</h2>
+      ${quote(insights.most_positive_review, 'Most Positive Review', SENTIMENT_COLORS.Neutral)}
+      ${quote(insights.most_negative_review, 'Most Negative Review', SENTIMENT_COLORS.Negative)}
+    </section>`;
+};
+
+const methodologySection = (options: ReportOptions) => `
+  <section class="methodology">
+    <h2>Methodology</h2>
+    <p>
+      Reviews are scored with a lexicon of ${Object.keys(LEXICON).length} built-in terms on the VADER valence scale (−4 to +4)${
+        options.lexiconVersion > 0 ? `, with custom lexicon version ${options.lexiconVersion} applied on top` : ''
+      }. Both methods share one tokenizer and per-term weighting:
+    </p>
+    <ul>
+      <li>Intensifiers (e.g. "very", "slightly") adjust the following term's weight, decaying with distance.</li>
+      <li>A negation within three words of a term flips and dampens it (× −0.74); commas end the negation scope.</li>
+      <li>Terms before "but" / "however" are halved and terms after it are weighted × 1.5.</li>
+    </ul>
+    <p>
+      <strong>TextBlob-style polarity</strong> is the mean of the matched term weights scaled to −1..1; reviews above 0.1
+      are Positive and below −0.1 Negative. Subjectivity is the mean strength of the matched terms.
+      <strong>VADER-style compound</strong> normalizes the summed weights (plus exclamation emphasis) into −1..1; reviews at
+      or above 0.05 are Positive and at or below −0.05 Negative.
+    </p>
+    <p>
+      The <strong>satisfaction score</strong> is (positive share − negative share + 1) × 50 using TextBlob labels, so 50 means
+      as many positive as negative reviews. Top words are the most frequent non-negated lexicon terms in each direction.
+    </p>
+  </section>`;
+
+/** A self-contained HTML document (inline CSS and SVG, no external assets) for the chosen sections. */
+export const buildReportHtml = (results: AnalysisResults, options: ReportOptions) => {
+  const include = (section: ReportSection) => options.sections.includes(section);
+  const scope = options.dateRange ? ` · ${options.dateRange.start} to ${options.dateRange.end}` : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Sentiment Analysis Report – ${escapeHtml(options.dataset)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <header>
+    <h1>Product Review Sentiment Analysis</h1>
+    <div class="meta">
+      ${escapeHtml(options.dataset)} · ${results.insights.total_reviews} reviews${escapeHtml(scope)} ·
+      analyzed ${escapeHtml(new Date(results.analysis_timestamp).toLocaleString())}
+    </div>
+  </header>
+  ${include('metrics') ? metricsSection(results) : ''}
+  ${include('charts') && options.charts.length > 0 ? chartsSection(options.charts) : ''}
+  ${include('words') ? wordsSection(results) : ''}
+  ${include('extremes') ? extremesSection(results) : ''}
+  ${include('methodology') ? methodologySection(options) : ''}
+</body>
+</html>`;
+};
+
+/** Opens the browser's print dialog for an HTML document so it can be saved as PDF. */
+export const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) return;
+    view.addEventListener('afterprint', () => frame.remove());
+    view.focus();
+    view.print();
+  };
+  document.body.appendChild(frame);
+};
@@ -0,0 +1,62 @@
+import { ScoredReview } from '../types';
+import { REVIEW_FIELDS } from './reviews';
+import { SCORER_VERSION } from './sentiment';
+import { aspectScores } from './aspects';
+import { isScored } from './language';
+import { stringifyCsv } from './csv';
+import { SheetCell, buildXlsx } from './xlsx';
+
+export type ResultsFormat = 'csv' | 'xlsx';
+
+const SCORE_COLUMNS = ['polarity', 'subjectivity', 'vader_compound', 'textblob_label', 'vader_label'] as const;
+const FLAG_COLUMNS = ['mixed', 'sarcasm'] as const;
+
+/** Text a spreadsheet would evaluate as a formula gets a leading apostrophe. */
+const guardFormula = (value: SheetCell) =>
+  typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+/**
+ * One header row plus a row per review: the mapped input fields, the detected language, both
+ * methods' scores and labels with the confidence and mixed/sarcasm flags (blank for unsupported
+ * languages), the dominant emotion, a mean score column per detected aspect, and the scorer/lexicon
+ * versions.
+ */
+export const buildResultRows = (reviews: ScoredReview[], lexiconVersion: number): SheetCell[][] => {
+  const perReview = reviews.map(aspectScores);
+  const aspects = [...new Set(perReview.flatMap(scores => Object.keys(scores)))].sort();
+  const fields = REVIEW_FIELDS.map(({ field }) => field)
+    .sort((a, b) => Number(a !== 'Review_ID') - Number(b !== 'Review_ID'))
+    .filter(field => reviews.some(review => review[field] !== undefined));
+
+  const header = [
+    ...fields, 'language', ...SCORE_COLUMNS, 'confidence', ...FLAG_COLUMNS, 'dominant_emotion', ...aspects.map(aspect => `aspect_${aspect}`), 'scorer_version', 'lexicon_version'
+  ];
+  const rows = reviews.map((review, index) => [
+    ...fields.map(field => {
+      const value = review[field];
+      return typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value;
+    }),
+    review.language,
+    ...SCORE_COLUMNS.map(column => (isScored(review) ? review[column] : undefined)),
+    isScored(review) ? review.confidence : undefined,
+    ...FLAG_COLUMNS.map(flag => (isScored(review) && review[flag] !== undefined ? (review[flag] ? 'Yes' : 'No') : undefined)),
+    review.dominant_emotion ?? undefined,
+    ...aspects.map(aspect => perReview[index][aspect]),
+    SCORER_VERSION,
+    lexiconVersion
+  ]);
+  return [header, ...rows];
+};
+
+/** Serializes scored reviews as CSV text or XLSX bytes. */
+export const exportResults = (reviews: ScoredReview[], lexiconVersion: number, format: ResultsFormat) => {
+  const rows = buildResultRows(reviews, lexiconVersion);
+  return format === 'csv'
+    ? stringifyCsv(rows.map(row => row.map(guardFormula)))
+    : buildXlsx('Scored reviews', rows);
+};
+
+export const RESULTS_MIME_TYPES: Record<ResultsFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
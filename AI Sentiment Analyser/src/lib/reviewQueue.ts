@@ -0,0 +1,31 @@
+import { ScoredReview } from '../types';
+import { isScored } from './language';
+
+/** Reviews scored below this confidence are queued for a human look. */
+export const LOW_CONFIDENCE = 0.4;
+
+export type ReviewFlag = 'low_confidence' | 'mixed' | 'sarcasm';
+
+export const REVIEW_FLAGS: ReviewFlag[] = ['low_confidence', 'mixed', 'sarcasm'];
+
+export const REVIEW_FLAG_LABELS: Record<ReviewFlag, string> = {
+  low_confidence: 'Low confidence',
+  mixed: 'Mixed',
+  sarcasm: 'Possible sarcasm'
+};
+
+/** Why a review's label is doubtful; empty for confident ones and for runs saved before confidence scoring. */
+export const reviewFlags = (review: ScoredReview): ReviewFlag[] => {
+  if (!isScored(review)) return [];
+  const flags: ReviewFlag[] = [];
+  if (review.confidence !== undefined && review.confidence < LOW_CONFIDENCE) flags.push('low_confidence');
+  if (review.mixed) flags.push('mixed');
+  if (review.sarcasm) flags.push('sarcasm');
+  return flags;
+};
+
+/** Flagged reviews, least confident first. */
+export const needsReview = (reviews: ScoredReview[]): ScoredReview[] =>
+  reviews
+    .filter(review => reviewFlags(review).length > 0)
+    .sort((a, b) => (a.confidence ?? 1) - (b.confidence ?? 1) || a.Review_ID.localeCompare(b.Review_ID));
@@ -0,0 +1,172 @@
+import sampleCsv from '../../sample_reviews.csv?raw';
+import { ReviewRecord } from '../types';
+import { CsvIssue, CsvRow, parseCsv } from './csv';
+
+export type ReviewField = keyof ReviewRecord;
+
+export interface ImportIssue {
+  line: number;
+  message: string;
+}
+
+export interface TableRow {
+  line: number;
+  values: Record<string, string>;
+}
+
+/** Rows keyed by source column, before they are mapped onto review fields. */
+export interface ReviewTable {
+  headers: string[];
+  rows: TableRow[];
+  issues: ImportIssue[];
+}
+
+export type ColumnMapping = Partial<Record<ReviewField, string>>;
+
+export const REVIEW_FIELDS: Array<{ field: ReviewField; label: string; required: boolean }> = [
+  { field: 'Review_Text', label: 'Review text', required: true },
+  { field: 'Review_ID', label: 'Review ID', required: false },
+  { field: 'Rating', label: 'Rating', required: false },
+  { field: 'Product_Category', label: 'Product category', required: false },
+  { field: 'Review_Date', label: 'Review date', required: false },
+  { field: 'Reviewer_Location', label: 'Reviewer location', required: false },
+  { field: 'Verified_Purchase', label: 'Verified purchase', required: false },
+  { field: 'Helpful_Votes', label: 'Helpful votes', required: false },
+  { field: 'Product_Price', label: 'Product price', required: false }
+];
+
+const FIELD_ALIASES: Record<ReviewField, string[]> = {
+  Review_ID: ['reviewid', 'id'],
+  Review_Text: ['reviewtext', 'text', 'review', 'body', 'comment', 'content'],
+  Rating: ['rating', 'stars', 'score'],
+  Product_Category: ['productcategory', 'category'],
+  Review_Date: ['reviewdate', 'date', 'createdat'],
+  Reviewer_Location: ['reviewerlocation', 'location', 'country', 'region'],
+  Verified_Purchase: ['verifiedpurchase', 'verified'],
+  Helpful_Votes: ['helpfulvotes', 'helpful', 'votes'],
+  Product_Price: ['productprice', 'price']
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Guesses which source column feeds each review field from the header names. */
+export const suggestColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  REVIEW_FIELDS.forEach(({ field }) => {
+    const match = FIELD_ALIASES[field]
+      .map(alias => headers.find(header => normalizeHeader(header) === alias))
+      .find(header => header !== undefined);
+    if (match) mapping[field] = match;
+  });
+  return mapping;
+};
+
+/** Turns parsed CSV rows into a table keyed by the header row, reporting rows with the wrong field count. */
+export const tableFromRows = (rows: CsvRow[], csvIssues: CsvIssue[]): ReviewTable => {
+  const issues: ImportIssue[] = [...csvIssues];
+  const [header, ...body] = rows;
+  if (!header) return { headers: [], rows: [], issues: [...issues, { line: 1, message: 'File has no header row' }] };
+
+  const headers = header.fields.map(column => column.trim());
+  const tableRows: TableRow[] = [];
+  body.forEach(({ line, fields }) => {
+    if (fields.length !== headers.length) {
+      issues.push({ line, message: `Expected ${headers.length} fields but found ${fields.length}` });
+      return;
+    }
+    tableRows.push({ line, values: Object.fromEntries(headers.map((column, i) => [column, fields[i]])) });
+  });
+
+  return { headers, rows: tableRows, issues: issues.sort((a, b) => a.line - b.line) };
+};
+
+export const tableFromCsv = (text: string, delimiter = ','): ReviewTable => {
+  const { rows, issues } = parseCsv(text.replace(/^\uFEFF/, ''), delimiter);
+  return tableFromRows(rows, issues);
+};
+
+const toNumber = (value: string | undefined) => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const toText = (value: string | undefined) => {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+};
+
+/** Builds a typed review record from raw string values keyed by review field. */
+export const toReviewRecord = (row: Record<string, string>, fallbackId: string): ReviewRecord => ({
+  Review_ID: toText(row.Review_ID) ?? fallbackId,
+  Review_Text: row.Review_Text?.trim() ?? '',
+  Rating: toNumber(row.Rating),
+  Product_Category: toText(row.Product_Category),
+  Review_Date: toText(row.Review_Date),
+  Reviewer_Location: toText(row.Reviewer_Location),
+  Verified_Purchase: row.Verified_Purchase === undefined ? undefined : /^(yes|true|1|y)$/i.test(row.Verified_Purchase.trim()),
+  Helpful_Votes: toNumber(row.Helpful_Votes),
+  Product_Price: toNumber(row.Product_Price)
+});
+
+export const generateReviewId = (index: number) => `R${(index + 1).toString().padStart(3, '0')}`;
+
+const NUMERIC_FIELDS: ReviewField[] = ['Rating', 'Helpful_Votes', 'Product_Price'];
+
+/** Applies a column mapping to a table, reporting every row that cannot become a review. */
+export const mapTableToReviews = (table: ReviewTable, mapping: ColumnMapping): { reviews: ReviewRecord[]; issues: ImportIssue[] } => {
+  const issues: ImportIssue[] = [...table.issues];
+  const reviews: ReviewRecord[] = [];
+
+  // Labels, run diffs and quality issues are all keyed by Review_ID, so every review gets its own.
+  // Generated and renamed IDs skip every ID that appears anywhere in the file.
+  const taken = new Set(table.rows.flatMap(({ values }) => {
+    const id = mapping.Review_ID === undefined ? undefined : toText(values[mapping.Review_ID]);
+    return id ? [id] : [];
+  }));
+  const firstLine = new Map<string, number>();
+  const claim = (base: string) => {
+    let id = base;
+    for (let copy = 2; taken.has(id); copy++) id = `${base}-${copy}`;
+    taken.add(id);
+    return id;
+  };
+
+  table.rows.forEach(({ line, values }) => {
+    const row: Record<string, string> = {};
+    REVIEW_FIELDS.forEach(({ field }) => {
+      const column = mapping[field];
+      if (column !== undefined && values[column] !== undefined) row[field] = values[column];
+    });
+
+    if (!row.Review_Text?.trim()) {
+      issues.push({ line, message: 'Missing review text' });
+      return;
+    }
+    const invalid = NUMERIC_FIELDS.filter(field => row[field]?.trim() && toNumber(row[field]) === undefined);
+    if (invalid.length > 0) {
+      issues.push({ line, message: `Non-numeric ${invalid.join(', ')} ignored` });
+    }
+
+    const review = toReviewRecord(row, '');
+    const first = firstLine.get(review.Review_ID);
+    if (!review.Review_ID) {
+      review.Review_ID = claim(generateReviewId(reviews.length));
+    } else if (first === undefined) {
+      firstLine.set(review.Review_ID, line);
+    } else {
+      const renamed = claim(review.Review_ID);
+      issues.push({ line, message: `Review ID ${review.Review_ID} already used on line ${first}; imported as ${renamed}` });
+      review.Review_ID = renamed;
+    }
+    reviews.push(review);
+  });
+
+  return { reviews, issues: issues.sort((a, b) => a.line - b.line) };
+};
+
+/** Loads the bundled sample_reviews.csv dataset. */
+export const loadSampleReviews = (): ReviewRecord[] => {
+  const table = tableFromCsv(sampleCsv);
+  return mapTableToReviews(table, suggestColumnMapping(table.headers)).reviews;
+};
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+
+export type Page = 'overview' | 'reviews' | 'segments' | 'models' | 'settings';
+
+export const PAGES: { id: Page; label: string }[] = [
+  { id: 'overview', label: 'Overview' },
+  { id: 'reviews', label: 'Review Explorer' },
+  { id: 'segments', label: 'Segments' },
+  { id: 'models', label: 'Model Comparison' },
+  { id: 'settings', label: 'Settings' }
+];
+
+/**
+ * Pages live in the URL hash (`#/segments`) so every page can be linked and reloaded without
+ * server rewrites, and the view query string in front of it is left alone.
+ */
+export const pageHash = (page: Page) => (page === 'overview' ? '#/' : `#/${page}`);
+
+/** An empty or unknown hash is the overview. */
+export const pageFromHash = (hash: string): Page =>
+  PAGES.find(page => page.id !== 'overview' && hash === pageHash(page.id))?.id ?? 'overview';
+
+/** The page in the address bar, and a navigate function that adds a history entry for it. */
+export const useRoute = () => {
+  const [page, setPage] = useState(() => pageFromHash(window.location.hash));
+
+  useEffect(() => {
+    const sync = () => setPage(pageFromHash(window.location.hash));
+    window.addEventListener('hashchange', sync);
+    return () => window.removeEventListener('hashchange', sync);
+  }, []);
+
+  const navigate = useCallback((next: Page) => {
+    if (pageFromHash(window.location.hash) !== next) window.location.hash = pageHash(next);
+    setPage(next);
+  }, []);
+
+  return [page, navigate] as const;
+};
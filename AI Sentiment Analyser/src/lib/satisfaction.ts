@@ -0,0 +1,166 @@
+import { ScoredReview, SentimentLabel } from '../types';
+import { round, seededRandom } from './metrics';
+import { parseReviewDate } from './timeseries';
+
+export type SatisfactionFormula = 'raw' | 'helpful' | 'verified' | 'recency';
+
+export const DEFAULT_HALF_LIFE_DAYS = 90;
+
+export const SATISFACTION_FORMULAS: Array<{
+  id: SatisfactionFormula;
+  label: string;
+  description: string;
+  /** Why there is no score when no review carries weight. */
+  empty: string;
+}> = [
+  {
+    id: 'raw',
+    label: 'Raw',
+    description: 'Every review counts once: (positive ratio − negative ratio + 1) × 50',
+    empty: 'No scored reviews in this view'
+  },
+  {
+    id: 'helpful',
+    label: 'Helpfulness-weighted',
+    description: 'Each review weighs 1 + ln(1 + Helpful_Votes)',
+    empty: 'No scored reviews in this view'
+  },
+  {
+    id: 'verified',
+    label: 'Verified only',
+    description: 'Only verified purchases count',
+    empty: 'No verified purchases in this view'
+  },
+  {
+    id: 'recency',
+    label: 'Recency-decayed',
+    description: `A review's weight halves every ${DEFAULT_HALF_LIFE_DAYS} days before the newest Review_Date; undated reviews are left out`,
+    empty: 'No review in this view has a readable Review_Date'
+  }
+];
+
+export interface SatisfactionOptions {
+  halfLifeDays?: number;
+  /** Bootstrap resamples; reduced automatically on large datasets. */
+  resamples?: number;
+  /** Confidence level of the interval, e.g. 0.95. */
+  level?: number;
+}
+
+export interface SatisfactionEstimate {
+  formula: SatisfactionFormula;
+  /** Null when no review carries weight under the formula, e.g. "Verified only" without verified purchases. */
+  score: number | null;
+  /** Percentile bootstrap interval around `score`; null until `bootstrapSatisfaction` has run. */
+  lower: number | null;
+  upper: number | null;
+  level: number;
+  /** Reviews that carry any weight under the formula. */
+  reviews: number;
+}
+
+/** One review as the bootstrap sees it: its weight, and the weight signed by its label. */
+export interface SatisfactionSample {
+  weight: number;
+  signed: number;
+}
+
+const DEFAULT_RESAMPLES = 1000;
+const MIN_RESAMPLES = 100;
+// Bootstrap work is capped at about this many review draws so the interval arrives quickly on large datasets
+const MAX_DRAWS = 5_000_000;
+const SEED = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SIGNS: Record<SentimentLabel, number> = { Positive: 1, Negative: -1, Neutral: 0 };
+
+/** Each review's weight under a formula; zero leaves it out. */
+export const satisfactionWeights = (
+  reviews: ScoredReview[],
+  formula: SatisfactionFormula,
+  halfLifeDays: number = DEFAULT_HALF_LIFE_DAYS
+): number[] => {
+  switch (formula) {
+    case 'helpful':
+      return reviews.map(review => 1 + Math.log1p(Math.max(0, review.Helpful_Votes ?? 0)));
+    case 'verified':
+      return reviews.map(review => (review.Verified_Purchase === true ? 1 : 0));
+    case 'recency': {
+      const times = reviews.map(review => parseReviewDate(review.Review_Date)?.getTime() ?? null);
+      const newest = times.reduce<number>((latest, time) => (time !== null && time > latest ? time : latest), -Infinity);
+      return times.map(time => (time === null ? 0 : 0.5 ** ((newest - time) / (halfLifeDays * DAY_MS))));
+    }
+    default:
+      return reviews.map(() => 1);
+  }
+};
+
+/** The reviews that carry weight under a formula, ready to resample. */
+export const satisfactionSamples = (
+  reviews: ScoredReview[],
+  formula: SatisfactionFormula,
+  halfLifeDays: number = DEFAULT_HALF_LIFE_DAYS
+): SatisfactionSample[] => {
+  const weights = satisfactionWeights(reviews, formula, halfLifeDays);
+  return reviews
+    .map((review, i) => ({ weight: weights[i], signed: weights[i] * SIGNS[review.textblob_label] }))
+    .filter(sample => sample.weight > 0);
+};
+
+const toScore = (samples: SatisfactionSample[]) => {
+  let signed = 0;
+  let weight = 0;
+  samples.forEach(sample => {
+    signed += sample.signed;
+    weight += sample.weight;
+  });
+  return (signed / weight + 1) * 50;
+};
+
+/**
+ * The satisfaction score under a formula — the weighted (positive − negative) share mapped onto
+ * 0..100. A single pass, cheap enough to follow every filter change; the interval is left for
+ * `bootstrapSatisfaction`.
+ */
+export const estimateSatisfaction = (
+  reviews: ScoredReview[],
+  formula: SatisfactionFormula,
+  { halfLifeDays = DEFAULT_HALF_LIFE_DAYS, level = 0.95 }: SatisfactionOptions = {}
+): SatisfactionEstimate => {
+  const samples = satisfactionSamples(reviews, formula, halfLifeDays);
+  if (samples.length === 0) return { formula, score: null, lower: null, upper: null, level, reviews: 0 };
+  return { formula, score: round(toScore(samples), 1), lower: null, upper: null, level, reviews: samples.length };
+};
+
+/**
+ * A percentile bootstrap confidence interval from resampling reviews. This is the expensive part
+ * on a large import, so the dashboard runs it through `bootstrapInWorker`.
+ */
+export const bootstrapSatisfaction = (
+  samples: SatisfactionSample[],
+  { resamples = DEFAULT_RESAMPLES, level = 0.95 }: SatisfactionOptions = {}
+): { lower: number; upper: number } => {
+  const n = samples.length;
+  if (n === 0) return { lower: 0, upper: 0 };
+
+  const rounds = Math.max(MIN_RESAMPLES, Math.min(resamples, Math.floor(MAX_DRAWS / n)));
+  const next = seededRandom(SEED);
+  const statistics: number[] = [];
+  for (let b = 0; b < rounds; b++) {
+    let signed = 0;
+    let weight = 0;
+    for (let draw = 0; draw < n; draw++) {
+      const sample = samples[Math.floor(next() * n)];
+      signed += sample.signed;
+      weight += sample.weight;
+    }
+    statistics.push((signed / weight + 1) * 50);
+  }
+  statistics.sort((a, b) => a - b);
+  const tail = (1 - level) / 2;
+
+  return {
+    lower: round(statistics[Math.floor(tail * rounds)], 1),
+    upper: round(statistics[Math.min(rounds - 1, Math.ceil((1 - tail) * rounds) - 1)], 1)
+  };
+};
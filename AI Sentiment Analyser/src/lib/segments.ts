@@ -0,0 +1,147 @@
+import { ScoredReview, SegmentDimension, SegmentSummary } from '../types';
+import { countLabels, mean, round, satisfactionScore, toPercentages } from './metrics';
+import { TermIndex, distinctiveWords, indexWords } from './terms';
+
+export const SEGMENT_DIMENSIONS: Array<{ dimension: SegmentDimension; label: string }> = [
+  { dimension: 'Product_Category', label: 'Category' },
+  { dimension: 'Reviewer_Location', label: 'Location' },
+  { dimension: 'price_band', label: 'Price band' },
+  { dimension: 'Verified_Purchase', label: 'Verified purchase' }
+];
+
+const PRICE_BANDS: Array<{ max: number; label: string }> = [
+  { max: 50, label: 'Under $50' },
+  { max: 100, label: '$50–$99' },
+  { max: 200, label: '$100–$199' },
+  { max: 400, label: '$200–$399' },
+  { max: Infinity, label: '$400+' }
+];
+
+const UNKNOWN = 'Unknown';
+const SEGMENT_WORD_COUNT = 5;
+
+export const priceBand = (price: number | undefined) =>
+  price === undefined ? UNKNOWN : PRICE_BANDS.find(band => price < band.max)?.label ?? UNKNOWN;
+
+export const segmentOf = (review: ScoredReview, dimension: SegmentDimension): string => {
+  switch (dimension) {
+    case 'Product_Category':
+      return review.Product_Category ?? UNKNOWN;
+    case 'Reviewer_Location':
+      return review.Reviewer_Location ?? UNKNOWN;
+    case 'price_band':
+      return priceBand(review.Product_Price);
+    case 'Verified_Purchase':
+      return review.Verified_Purchase === undefined ? UNKNOWN : review.Verified_Purchase ? 'Verified' : 'Unverified';
+  }
+};
+
+export const groupBySegment = (reviews: ScoredReview[], dimension: SegmentDimension) => {
+  const groups = new Map<string, ScoredReview[]>();
+  reviews.forEach(review => {
+    const key = segmentOf(review, dimension);
+    const group = groups.get(key);
+    if (group) group.push(review);
+    else groups.set(key, [review]);
+  });
+  return groups;
+};
+
+const orderSegments = (dimension: SegmentDimension, a: SegmentSummary, b: SegmentSummary) => {
+  if (dimension === 'price_band') {
+    const rank = (segment: string) => {
+      const index = PRICE_BANDS.findIndex(band => band.label === segment);
+      return index === -1 ? PRICE_BANDS.length : index;
+    };
+    return rank(a.segment) - rank(b.segment);
+  }
+  return b.total - a.total || a.segment.localeCompare(b.segment);
+};
+
+export const summarizeSegment = (segment: string, reviews: ScoredReview[], index?: TermIndex): SegmentSummary => {
+  const distribution = countLabels(reviews.map(r => r.textblob_label));
+  const words = distinctiveWords(reviews, SEGMENT_WORD_COUNT, index);
+  return {
+    segment,
+    total: reviews.length,
+    distribution,
+    percentages: toPercentages(distribution, reviews.length),
+    satisfaction_score: satisfactionScore(distribution, reviews.length),
+    average_polarity: round(mean(reviews.map(r => r.polarity)), 3),
+    top_positive_words: words.positive,
+    top_negative_words: words.negative
+  };
+};
+
+/**
+ * Sentiment distribution, satisfaction score and top words for every segment of every dimension.
+ * Every review is tokenized once, however many segments it falls into.
+ */
+export const computeSegments = (
+  reviews: ScoredReview[],
+  index: TermIndex = indexWords(reviews)
+): Record<SegmentDimension, SegmentSummary[]> =>
+  Object.fromEntries(
+    SEGMENT_DIMENSIONS.map(({ dimension }) => [
+      dimension,
+      [...groupBySegment(reviews, dimension).entries()]
+        .map(([segment, members]) => summarizeSegment(segment, members, index))
+        .sort((a, b) => orderSegments(dimension, a, b))
+    ])
+  ) as Record<SegmentDimension, SegmentSummary[]>;
+
+export interface HeatmapCell {
+  row: string;
+  column: string;
+  total: number;
+  satisfaction_score: number | null;
+}
+
+/**
+ * Cross-tabulates satisfaction between two dimensions. Columns beyond `maxColumns`
+ * (ranked by review count) are folded into "Other" to keep the grid readable.
+ */
+export const computeHeatmap = (
+  reviews: ScoredReview[],
+  rowDimension: SegmentDimension,
+  columnDimension: SegmentDimension,
+  maxColumns = 10
+) => {
+  const columnCounts = [...groupBySegment(reviews, columnDimension).entries()]
+    .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]));
+  const kept = new Set(columnCounts.slice(0, maxColumns).map(([segment]) => segment));
+  const columnOf = (review: ScoredReview) => {
+    const segment = segmentOf(review, columnDimension);
+    return kept.has(segment) ? segment : 'Other';
+  };
+
+  const byCell = new Map<string, ScoredReview[]>();
+  const rowSet = new Set<string>();
+  reviews.forEach(review => {
+    const row = segmentOf(review, rowDimension);
+    const key = `${row}\u0000${columnOf(review)}`;
+    rowSet.add(row);
+    const members = byCell.get(key);
+    if (members) members.push(review);
+    else byCell.set(key, [review]);
+  });
+
+  const rows = [...rowSet].sort();
+  const columns = [...kept, ...(columnCounts.length > maxColumns ? ['Other'] : [])];
+
+  const cells: HeatmapCell[] = rows.flatMap(row =>
+    columns.map(column => {
+      const members = byCell.get(`${row}\u0000${column}`) ?? [];
+      return {
+        row,
+        column,
+        total: members.length,
+        satisfaction_score: members.length
+          ? satisfactionScore(countLabels(members.map(r => r.textblob_label)), members.length)
+          : null
+      };
+    })
+  );
+
+  return { rows, columns, cells };
+};
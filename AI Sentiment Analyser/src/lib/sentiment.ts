@@ -0,0 +1,233 @@
+import { SentimentLabel, TermContribution } from '../types';
+import { CONTRASTIVES, INTENSIFIERS, LEXICON, NEGATIONS, NEGATIVE_OUTCOMES, SARCASM_CUES } from './lexicon';
+
+/** Term → valence on the VADER -4..4 scale. */
+export type Lexicon = Record<string, number>;
+
+export interface SentimentScore {
+  polarity: number;
+  subjectivity: number;
+  compound: number;
+  textblob_label: SentimentLabel;
+  vader_label: SentimentLabel;
+  /** 0..1: how much evidence backs the label and how unambiguous it is. */
+  confidence: number;
+  mixed: boolean;
+  sarcasm: boolean;
+  contributions: TermContribution[];
+}
+
+/** The function words a language's scorer treats specially; see `LanguagePack` for the full plug-in shape. */
+export interface LanguageRules {
+  negations: Set<string>;
+  intensifiers: Record<string, number>;
+  contrastives: Set<string>;
+  /** Negations that follow the sentiment word, as in Hindi "अच्छा नहीं". */
+  negationFollows?: boolean;
+  /** Words that mark praise followed by a complaint as sarcastic; languages without them skip sarcasm detection. */
+  sarcasmCues?: Set<string>;
+  /** Otherwise neutral words ("stopped", "returned") that count as a complaint for sarcasm detection. */
+  negativeOutcomes?: Set<string>;
+}
+
+export const ENGLISH_RULES: LanguageRules = {
+  negations: NEGATIONS,
+  intensifiers: INTENSIFIERS,
+  contrastives: CONTRASTIVES,
+  sarcasmCues: SARCASM_CUES,
+  negativeOutcomes: NEGATIVE_OUTCOMES
+};
+
+/** Bump whenever scoring changes so exported scores can be traced to the engine that produced them. */
+export const SCORER_VERSION = '1.2.0';
+
+const NEGATION_SCALAR = -0.74;
+const CONTRAST_BEFORE = 0.5;
+const CONTRAST_AFTER = 1.5;
+const SCOPE = 3;
+const EXCLAMATION_BOOST = 0.292;
+const NORMALIZATION_ALPHA = 15;
+
+// A review is mixed when its weaker side carries at least this much valence, and this share of the stronger side
+const MIXED_MINIMUM = 1;
+const MIXED_BALANCE = 0.3;
+
+// Multipliers applied to confidence for each source of ambiguity
+const DISAGREEMENT_PENALTY = 0.75;
+const MIXED_PENALTY = 0.6;
+const SARCASM_PENALTY = 0.7;
+const NEGATION_PENALTY = 0.85;
+
+const CLAUSE_BREAK = ',';
+
+/** Splits text into sentences, keeping their closing punctuation (including the Devanagari danda). */
+export const splitSentences = (text: string): string[] =>
+  (text.match(/[^.!?;।॥\n]+[.!?;।॥]*/g) ?? []).map(sentence => sentence.trim()).filter(Boolean);
+
+/**
+ * Lowercase word tokens for one sentence, keeping commas as clause breaks. Words are runs of Unicode
+ * letters and combining marks, so accented Latin and Devanagari vowel signs stay inside their word.
+ */
+export const tokenizeSentence = (sentence: string): string[] =>
+  sentence.normalize('NFC').toLowerCase().replace(/['’]/g, '').match(/[\p{L}\p{M}]+|,/gu) ?? [];
+
+export const tokenize = (text: string): string[][] =>
+  splitSentences(text).map(tokenizeSentence).filter(tokens => tokens.length > 0);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Indexes of the contributions that are sarcastic praise. Praise followed by a complaint reads as
+ * sarcasm when it opens the sentence as an exclamation ("Great, ...", "Oh perfect, ...") or a cue word
+ * such as "another" appears. Sentences with a contrastive conjunction are left alone: "good but
+ * broke" is mixed, not sarcastic.
+ */
+const sarcasticPraise = (tokens: string[], positions: number[], contributions: TermContribution[], rules: LanguageRules) => {
+  const cues = rules.sarcasmCues;
+  if (!cues || tokens.some(token => rules.contrastives.has(token))) return [];
+  const complaints = [
+    ...positions.filter((_, i) => contributions[i].weight < 0),
+    ...tokens.flatMap((token, position) => (rules.negativeOutcomes?.has(token) ? [position] : []))
+  ];
+  if (complaints.length === 0) return [];
+  const complaint = Math.min(...complaints);
+  const praise = positions.flatMap((position, i) => (position < complaint && contributions[i].weight > 0 ? [i] : []));
+  if (praise.length === 0) return [];
+  const opener = positions[praise[0]] <= 1 && tokens[positions[praise[0]] + 1] === CLAUSE_BREAK;
+  return opener || tokens.some(token => cues.has(token)) ? praise : [];
+};
+
+export const scoreSentence = (
+  tokens: string[],
+  lexicon: Lexicon = LEXICON,
+  rules: LanguageRules = ENGLISH_RULES
+): TermContribution[] => {
+  const contrastIndex = tokens.findIndex(token => rules.contrastives.has(token));
+  const contributions: TermContribution[] = [];
+  const positions: number[] = [];
+
+  tokens.forEach((token, index) => {
+    const valence = lexicon[token];
+    if (typeof valence !== 'number') return;
+
+    let weight = valence;
+    let negated = false;
+
+    for (let distance = 1; distance <= SCOPE; distance++) {
+      const previous = tokens[index - distance];
+      // A contrastive ends the negation's scope: in "not cheap but sturdy", "sturdy" is not negated
+      if (previous === undefined || previous === CLAUSE_BREAK || rules.contrastives.has(previous)) break;
+
+      const boost = rules.intensifiers[previous];
+      if (boost !== undefined) {
+        const decay = distance === 1 ? 1 : distance === 2 ? 0.95 : 0.9;
+        weight += Math.sign(valence) * boost * decay;
+      }
+      if (rules.negations.has(previous)) negated = true;
+    }
+
+    if (rules.negationFollows) {
+      for (let distance = 1; distance <= SCOPE; distance++) {
+        const next = tokens[index + distance];
+        if (next === undefined || next === CLAUSE_BREAK || rules.contrastives.has(next)) break;
+        if (rules.negations.has(next)) negated = true;
+      }
+    }
+
+    if (negated) weight *= NEGATION_SCALAR;
+
+    if (contrastIndex >= 0) {
+      if (index < contrastIndex) weight *= CONTRAST_BEFORE;
+      else if (index > contrastIndex) weight *= CONTRAST_AFTER;
+    }
+
+    contributions.push({ term: token, valence, weight, negated });
+    positions.push(index);
+  });
+
+  sarcasticPraise(tokens, positions, contributions, rules).forEach(i => {
+    contributions[i] = { ...contributions[i], weight: contributions[i].weight * NEGATION_SCALAR, sarcastic: true };
+  });
+
+  return contributions;
+};
+
+/** VADER-style normalization of summed valences, with exclamation-mark emphasis, into -1..1. */
+export const compoundScore = (contributions: TermContribution[], text: string) => {
+  let sum = contributions.reduce((total, c) => total + c.weight, 0);
+  const exclamations = Math.min(4, (text.match(/!/g) ?? []).length);
+  if (sum !== 0) sum += Math.sign(sum) * exclamations * EXCLAMATION_BOOST;
+  return clamp(sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA), -1, 1);
+};
+
+export const labelFromPolarity = (polarity: number): SentimentLabel =>
+  polarity > 0.1 ? 'Positive' : polarity < -0.1 ? 'Negative' : 'Neutral';
+
+export const labelFromCompound = (compound: number): SentimentLabel =>
+  compound >= 0.05 ? 'Positive' : compound <= -0.05 ? 'Negative' : 'Neutral';
+
+/** True when both praise and criticism are substantial, judged on unweighted valence so contrast emphasis doesn't hide either side. */
+export const isMixed = (contributions: TermContribution[]) => {
+  const praise = contributions.filter(c => c.weight > 0).reduce((sum, c) => sum + Math.abs(c.valence), 0);
+  const criticism = contributions.filter(c => c.weight < 0).reduce((sum, c) => sum + Math.abs(c.valence), 0);
+  const weaker = Math.min(praise, criticism);
+  return weaker >= MIXED_MINIMUM && weaker >= Math.max(praise, criticism) * MIXED_BALANCE;
+};
+
+/**
+ * Grows with the number of matched terms and the strength of the compound score, and shrinks when
+ * the two methods disagree or the review is mixed, sarcastic or relies on negation.
+ */
+export const confidenceScore = (
+  contributions: TermContribution[],
+  compound: number,
+  agree: boolean,
+  mixed: boolean
+) => {
+  const evidence = 1 - Math.exp(-contributions.length);
+  let confidence = evidence * (0.5 + 0.5 * Math.abs(compound));
+  if (!agree) confidence *= DISAGREEMENT_PENALTY;
+  if (mixed) confidence *= MIXED_PENALTY;
+  if (contributions.some(c => c.sarcastic)) confidence *= SARCASM_PENALTY;
+  if (contributions.some(c => c.negated)) confidence *= NEGATION_PENALTY;
+  return confidence;
+};
+
+/**
+ * Scores a review with two lexicon-based methods that share one tokenizer:
+ * a TextBlob-style polarity (mean of matched term valences, -1 to 1) with subjectivity,
+ * and a VADER-style normalized compound score.
+ */
+export const scoreText = (text: string, lexicon: Lexicon = LEXICON, rules: LanguageRules = ENGLISH_RULES): SentimentScore => {
+  const contributions = tokenize(text).flatMap(tokens => scoreSentence(tokens, lexicon, rules));
+
+  let polarity = 0;
+  let subjectivity = 0;
+  let compound = 0;
+
+  if (contributions.length > 0) {
+    polarity = clamp(
+      contributions.reduce((sum, c) => sum + clamp(c.weight / 4, -1, 1), 0) / contributions.length,
+      -1,
+      1
+    );
+    subjectivity = contributions.reduce((sum, c) => sum + Math.min(1, 0.35 + Math.abs(c.weight) / 5), 0) / contributions.length;
+    compound = compoundScore(contributions, text);
+  }
+
+  const textblobLabel = labelFromPolarity(polarity);
+  const vaderLabel = labelFromCompound(compound);
+  const mixed = isMixed(contributions);
+
+  return {
+    polarity,
+    subjectivity,
+    compound,
+    textblob_label: textblobLabel,
+    vader_label: vaderLabel,
+    confidence: confidenceScore(contributions, compound, textblobLabel === vaderLabel, mixed),
+    mixed,
+    sarcasm: contributions.some(c => c.sarcastic),
+    contributions
+  };
+};
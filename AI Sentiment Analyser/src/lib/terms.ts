@@ -0,0 +1,244 @@
+import { ScoredReview } from '../types';
+import { tokenize } from './sentiment';
+import { NEGATIONS } from './lexicon';
+import { round } from './metrics';
+
+export type TermRanking = 'log_odds' | 'tfidf';
+
+export const TERM_RANKINGS: Array<{ id: TermRanking; label: string }> = [
+  { id: 'log_odds', label: 'Log-odds' },
+  { id: 'tfidf', label: 'TF-IDF' }
+];
+
+export interface TermStat {
+  term: string;
+  /** Words in the term: 1, 2 or 3. */
+  n: number;
+  count: number;
+  positive_count: number;
+  negative_count: number;
+  /** Reviews containing the term at least once. */
+  reviews: number;
+  /** Signed: above zero leans positive, below zero leans negative. */
+  score: number;
+}
+
+export interface TermOptions {
+  ranking?: TermRanking;
+  sizes?: number[];
+  /** Terms seen fewer times across all reviews are dropped as noise. */
+  minCount?: number;
+  /** Terms kept per direction. */
+  limit?: number;
+}
+
+// Negations are deliberately absent so phrases like "not worth" survive; they are only dropped as lone words.
+export const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be',
+  'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do',
+  'does', 'doing', 'down', 'during', 'each', 'even', 'ever', 'every', 'few', 'for', 'from', 'further', 'get',
+  'got', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his',
+  'how', 'i', 'if', 'im', 'in', 'into', 'is', 'it', 'its', 'itself', 'ive', 'just', 'lot', 'many', 'me',
+  'more', 'most', 'much', 'my', 'myself', 'now', 'of', 'off', 'on', 'once', 'one', 'only', 'or', 'other',
+  'our', 'ours', 'ourselves', 'out', 'over', 'own', 'quite', 'really', 'same', 'she', 'should', 'so', 'some',
+  'still', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them', 'themselves', 'then', 'there', 'these',
+  'they', 'this', 'those', 'through', 'to', 'too', 'under', 'until', 'up', 'us', 'very', 'was', 'we', 'were',
+  'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your',
+  'yours', 'yourself', 'yourselves'
+].filter(word => !NEGATIONS.has(word)));
+
+const PRIOR_SCALE = 0.5;
+
+/** Clause-level token runs: sentences split further at commas so n-grams never bridge a clause. */
+export const clauses = (text: string) =>
+  tokenize(text).flatMap(tokens => {
+    const runs: string[][] = [[]];
+    tokens.forEach(token => (token === ',' ? runs.push([]) : runs[runs.length - 1].push(token)));
+    return runs.filter(run => run.length > 0);
+  });
+
+const keepNgram = (words: string[]) =>
+  words.length === 1
+    ? words[0].length > 1 && !STOPWORDS.has(words[0]) && !NEGATIONS.has(words[0])
+    : !STOPWORDS.has(words[0]) && !STOPWORDS.has(words[words.length - 1]);
+
+/** Every unigram, bigram or trigram (per `sizes`) in a text that does not start or end on a stopword. */
+export const extractNgrams = (text: string, sizes: number[] = [1, 2, 3]): string[] => {
+  const ngrams: string[] = [];
+  clauses(text).forEach(words =>
+    sizes.forEach(n => {
+      for (let start = 0; start + n <= words.length; start++) {
+        const gram = words.slice(start, start + n);
+        if (keepNgram(gram)) ngrams.push(gram.join(' '));
+      }
+    })
+  );
+  return ngrams;
+};
+
+/** Every review's words as ids into one shared vocabulary, extracted once for many word rankings. */
+export interface TermIndex {
+  terms: string[];
+  /** One id per occurrence, in text order. */
+  ids: Map<ScoredReview, number[]>;
+}
+
+export const indexWords = (reviews: ScoredReview[]): TermIndex => {
+  const terms: string[] = [];
+  const idOf = new Map<string, number>();
+  const ids = new Map(reviews.map(review => [
+    review,
+    extractNgrams(review.Review_Text, [1]).map(term => {
+      let id = idOf.get(term);
+      if (id === undefined) {
+        id = terms.length;
+        idOf.set(term, id);
+        terms.push(term);
+      }
+      return id;
+    })
+  ]));
+  return { terms, ids };
+};
+
+/** Whether token runs from `clauses` contain the term as a contiguous phrase. */
+export const clausesContain = (runs: string[][], term: string) => {
+  const target = term.split(' ');
+  return runs.some(words => {
+    for (let start = 0; start + target.length <= words.length; start++) {
+      if (target.every((word, offset) => words[start + offset] === word)) return true;
+    }
+    return false;
+  });
+};
+
+/** Whether the review's clause tokens contain the term as a contiguous phrase. */
+export const containsTerm = (text: string, term: string) => clausesContain(clauses(text), term);
+
+interface TermCounts {
+  n: number;
+  count: number;
+  positive: number;
+  negative: number;
+  reviews: number;
+}
+
+/**
+ * Log-odds ratio with an informative Dirichlet prior (Monroe, Colaresi & Quinn, 2008), returned as a
+ * z-score. The prior is the term's share of the whole corpus, so rare terms are shrunk towards zero.
+ */
+const logOddsScore = (counts: Pick<TermCounts, 'count' | 'positive' | 'negative'>, totals: { positive: number; negative: number; all: number }) => {
+  const alpha = PRIOR_SCALE * counts.count;
+  const alpha0 = PRIOR_SCALE * totals.all;
+  const positiveOdds = (counts.positive + alpha) / (totals.positive + alpha0 - counts.positive - alpha);
+  const negativeOdds = (counts.negative + alpha) / (totals.negative + alpha0 - counts.negative - alpha);
+  const delta = Math.log(positiveOdds) - Math.log(negativeOdds);
+  const variance = 1 / (counts.positive + alpha) + 1 / (counts.negative + alpha);
+  return delta / Math.sqrt(variance);
+};
+
+/** Difference in the term's frequency between positive and negative reviews, weighted by IDF. */
+const tfidfScore = (counts: TermCounts, totals: { positive: number; negative: number }, documents: number) => {
+  const idf = Math.log(documents / counts.reviews) + 1;
+  const tf = (value: number, total: number) => (total ? value / total : 0);
+  return (tf(counts.positive, totals.positive) - tf(counts.negative, totals.negative)) * idf * 1000;
+};
+
+/**
+ * Ranks n-grams by how strongly they separate positive from negative reviews (TextBlob labels).
+ * Returns the `limit` most distinctive terms in each direction, most positive first.
+ */
+export const analyzeTerms = (reviews: ScoredReview[], options: TermOptions = {}): TermStat[] => {
+  const { ranking = 'log_odds', sizes = [1, 2, 3], minCount = 2, limit = 40 } = options;
+  const counts = new Map<string, TermCounts>();
+  // Totals are kept per n-gram size so bigrams compete against bigrams, not unigrams
+  const totals = new Map<number, { positive: number; negative: number; all: number }>();
+  sizes.forEach(n => totals.set(n, { positive: 0, negative: 0, all: 0 }));
+
+  reviews.forEach(review => {
+    const seen = new Set<string>();
+    extractNgrams(review.Review_Text, sizes).forEach(term => {
+      let entry = counts.get(term);
+      if (!entry) {
+        entry = { n: term.split(' ').length, count: 0, positive: 0, negative: 0, reviews: 0 };
+        counts.set(term, entry);
+      }
+      const total = totals.get(entry.n)!;
+      entry.count++;
+      total.all++;
+      if (review.textblob_label === 'Positive') {
+        entry.positive++;
+        total.positive++;
+      } else if (review.textblob_label === 'Negative') {
+        entry.negative++;
+        total.negative++;
+      }
+      if (!seen.has(term)) {
+        entry.reviews++;
+        seen.add(term);
+      }
+    });
+  });
+
+  const ranked: TermStat[] = [];
+  counts.forEach((entry, term) => {
+    if (entry.count < minCount || entry.positive + entry.negative === 0) return;
+    const total = totals.get(entry.n)!;
+    const score = ranking === 'log_odds' ? logOddsScore(entry, total) : tfidfScore(entry, total, reviews.length);
+    ranked.push({
+      term,
+      n: entry.n,
+      count: entry.count,
+      positive_count: entry.positive,
+      negative_count: entry.negative,
+      reviews: entry.reviews,
+      score: round(score, 3)
+    });
+  });
+
+  const byStrength = (a: TermStat, b: TermStat) => Math.abs(b.score) - Math.abs(a.score) || a.term.localeCompare(b.term);
+  const positive = ranked.filter(stat => stat.score > 0).sort(byStrength).slice(0, limit);
+  const negative = ranked.filter(stat => stat.score < 0).sort(byStrength).slice(0, limit);
+  return [...positive, ...negative.reverse()];
+};
+
+/**
+ * The most distinctive single words in each direction, strongest first, ranked by log-odds exactly as
+ * `analyzeTerms` would. Counting runs over a `TermIndex` so many subsets of one corpus (every segment)
+ * share a single tokenization.
+ */
+export const distinctiveWords = (reviews: ScoredReview[], limit: number, index: TermIndex = indexWords(reviews)) => {
+  const size = index.terms.length;
+  const count = new Uint32Array(size);
+  const positive = new Uint32Array(size);
+  const negative = new Uint32Array(size);
+  const totals = { positive: 0, negative: 0, all: 0 };
+
+  reviews.forEach(review => {
+    const ids = index.ids.get(review) ?? [];
+    const label = review.textblob_label;
+    totals.all += ids.length;
+    if (label === 'Positive') totals.positive += ids.length;
+    else if (label === 'Negative') totals.negative += ids.length;
+    ids.forEach(id => {
+      count[id]++;
+      if (label === 'Positive') positive[id]++;
+      else if (label === 'Negative') negative[id]++;
+    });
+  });
+
+  const ranked: Array<{ term: string; score: number }> = [];
+  for (let id = 0; id < size; id++) {
+    if (count[id] < 2 || positive[id] + negative[id] === 0) continue;
+    const score = logOddsScore({ count: count[id], positive: positive[id], negative: negative[id] }, totals);
+    ranked.push({ term: index.terms[id], score: round(score, 3) });
+  }
+
+  const byStrength = (a: { term: string; score: number }, b: { term: string; score: number }) =>
+    Math.abs(b.score) - Math.abs(a.score) || a.term.localeCompare(b.term);
+  const top = (stats: typeof ranked) => stats.sort(byStrength).slice(0, limit).map(stat => stat.term);
+  return {
+    positive: top(ranked.filter(stat => stat.score > 0)),
+    negative: top(ranked.filter(stat => stat.score < 0))
+  };
+};
@@ -0,0 +1,177 @@
+import { ScoredReview } from '../types';
+
+export type Granularity = 'day' | 'week' | 'month';
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export interface TimeBucket {
+  start: string;
+  end: string;
+  label: string;
+  total: number;
+  positive: number;
+  negative: number;
+  neutral: number;
+  average_polarity: number | null;
+  rolling_polarity: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Dates further than this many interquartile spreads outside the middle half are treated as typos
+const OUTLIER_FENCE = 3;
+// Keeps a dataset from a single day or week from flagging a review a few months later
+const MIN_SPREAD_MS = 365 * DAY_MS;
+// Upper bound on the chart axis when the dates are too scattered to have outliers
+const MAX_BUCKETS = 5000;
+const BUCKET_DAYS: Record<Granularity, number> = { day: 1, week: 7, month: 31 };
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/** Parses a review date as a UTC calendar day; returns null when it is missing or unreadable. */
+export const parseReviewDate = (value: string | undefined): Date | null => {
+  if (!value) return null;
+  const iso = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    const [month, day] = [Number(iso[2]), Number(iso[3])];
+    const date = new Date(Date.UTC(Number(iso[1]), month - 1, day));
+    // Date.UTC rolls month 13 or day 32 over into the next year or month, so reject them instead
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+  }
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) return null;
+  const date = new Date(parsed);
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+};
+
+const bucketStart = (date: Date, granularity: Granularity) => {
+  if (granularity === 'month') return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  if (granularity === 'week') {
+    // Weeks start on Monday
+    const offset = (date.getUTCDay() + 6) % 7;
+    return new Date(date.getTime() - offset * DAY_MS);
+  }
+  return date;
+};
+
+const nextBucket = (start: Date, granularity: Granularity) => {
+  if (granularity === 'month') return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  return new Date(start.getTime() + (granularity === 'week' ? 7 : 1) * DAY_MS);
+};
+
+const bucketLabel = (start: Date, granularity: Granularity) =>
+  granularity === 'month' ? toIsoDate(start).slice(0, 7) : toIsoDate(start);
+
+export interface ReviewBucket {
+  start: string;
+  end: string;
+  label: string;
+  reviews: ScoredReview[];
+}
+
+export interface DatedReviews {
+  dated: Array<{ review: ScoredReview; date: Date }>;
+  /** Reviews with a readable date far outside the rest, left out of the buckets. */
+  outliers: ScoredReview[];
+}
+
+/**
+ * Parses every review's date and sets aside outliers such as a year 0201 or 9999 typo, which would
+ * otherwise stretch the axis over thousands of empty buckets. Dates beyond `OUTLIER_FENCE`
+ * interquartile spreads are outliers, and when the dates are too scattered for that to help, only
+ * the latest `MAX_BUCKETS` buckets are kept.
+ */
+export const splitDatedReviews = (reviews: ScoredReview[], granularity: Granularity): DatedReviews => {
+  const entries = reviews
+    .map(review => ({ review, date: parseReviewDate(review.Review_Date) }))
+    .filter((entry): entry is { review: ScoredReview; date: Date } => entry.date !== null);
+  if (entries.length === 0) return { dated: [], outliers: [] };
+
+  const times = entries.map(entry => entry.date.getTime()).sort((a, b) => a - b);
+  const quartile = (q: number) => times[Math.floor(q * (times.length - 1))];
+  const spread = Math.max(quartile(0.75) - quartile(0.25), MIN_SPREAD_MS);
+  const high = quartile(0.75) + OUTLIER_FENCE * spread;
+  const latest = times.reduce((max, time) => (time <= high ? time : max), -Infinity);
+  const low = Math.max(quartile(0.25) - OUTLIER_FENCE * spread, latest - MAX_BUCKETS * BUCKET_DAYS[granularity] * DAY_MS);
+
+  const dated: DatedReviews['dated'] = [];
+  const outliers: ScoredReview[] = [];
+  entries.forEach(entry => {
+    const time = entry.date.getTime();
+    if (time >= low && time <= high) dated.push(entry);
+    else outliers.push(entry.review);
+  });
+  return { dated, outliers };
+};
+
+/**
+ * Groups dated reviews into day, week or month buckets; empty buckets are kept so the axis stays
+ * continuous. Outlier dates from `splitDatedReviews` are left out.
+ */
+export const bucketReviews = (reviews: ScoredReview[], granularity: Granularity): ReviewBucket[] => {
+  const { dated } = splitDatedReviews(reviews, granularity);
+  if (dated.length === 0) return [];
+
+  const groups = new Map<string, ScoredReview[]>();
+  dated.forEach(({ review, date }) => {
+    const key = toIsoDate(bucketStart(date, granularity));
+    const group = groups.get(key);
+    if (group) group.push(review);
+    else groups.set(key, [review]);
+  });
+
+  const times = dated.map(entry => entry.date.getTime());
+  const first = times.reduce((min, time) => Math.min(min, time), Infinity);
+  const last = bucketStart(new Date(times.reduce((max, time) => Math.max(max, time), -Infinity)), granularity);
+  const buckets: ReviewBucket[] = [];
+
+  for (let cursor = bucketStart(new Date(first), granularity); cursor <= last; cursor = nextBucket(cursor, granularity)) {
+    buckets.push({
+      start: toIsoDate(cursor),
+      end: toIsoDate(new Date(nextBucket(cursor, granularity).getTime() - DAY_MS)),
+      label: bucketLabel(cursor, granularity),
+      reviews: groups.get(toIsoDate(cursor)) ?? []
+    });
+  }
+  return buckets;
+};
+
+/**
+ * Buckets dated reviews by day, week or month and computes the sentiment mix per bucket.
+ * The rolling polarity is the review-weighted average over the trailing `window` buckets.
+ */
+export const buildTimeSeries = (reviews: ScoredReview[], granularity: Granularity, window = 3): TimeBucket[] => {
+  const buckets: TimeBucket[] = bucketReviews(reviews, granularity).map(({ start, end, label, reviews: members }) => {
+    const polaritySum = members.reduce((sum, r) => sum + r.polarity, 0);
+    return {
+      start,
+      end,
+      label,
+      total: members.length,
+      positive: members.filter(r => r.textblob_label === 'Positive').length,
+      negative: members.filter(r => r.textblob_label === 'Negative').length,
+      neutral: members.filter(r => r.textblob_label === 'Neutral').length,
+      average_polarity: members.length ? Math.round((polaritySum / members.length) * 1000) / 1000 : null,
+      rolling_polarity: null
+    };
+  });
+
+  buckets.forEach((bucket, index) => {
+    const trailing = buckets.slice(Math.max(0, index - window + 1), index + 1);
+    const count = trailing.reduce((sum, b) => sum + b.total, 0);
+    const weighted = trailing.reduce((sum, b) => sum + (b.average_polarity ?? 0) * b.total, 0);
+    bucket.rolling_polarity = count ? Math.round((weighted / count) * 1000) / 1000 : null;
+  });
+
+  return buckets;
+};
+
+export const filterByDateRange = (reviews: ScoredReview[], range: DateRange) =>
+  reviews.filter(review => {
+    const date = parseReviewDate(review.Review_Date);
+    if (!date) return false;
+    const day = toIsoDate(date);
+    return day >= range.start && day <= range.end;
+  });
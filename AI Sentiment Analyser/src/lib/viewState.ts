@@ -0,0 +1,108 @@
+import { ChartType, Emotion, ExplorerFilters, SegmentDimension, SentimentLabel } from '../types';
+import { DateRange } from './timeseries';
+import { SATISFACTION_FORMULAS, SatisfactionFormula } from './satisfaction';
+import { SEGMENT_DIMENSIONS } from './segments';
+import { EMOTIONS } from './emotions';
+import { LABELS } from './metrics';
+
+/** Everything a link or saved view restores. */
+export interface DashboardView {
+  chart: ChartType;
+  /** The saved run on screen; null for a fresh analysis that has not been reopened. */
+  run: string | null;
+  range: DateRange | null;
+  segment: SegmentDimension;
+  term: string | null;
+  emotion: Emotion | null;
+  filters: ExplorerFilters;
+  formula: SatisfactionFormula;
+  /** Whether duplicates and spam-like reviews are left out of the metrics. */
+  exclude_low_quality: boolean;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  saved_at: string;
+  view: DashboardView;
+}
+
+export const CHART_TYPES: ChartType[] = ['pie', 'bar', 'line', 'area', 'timeline'];
+
+export const DEFAULT_EXPLORER_FILTERS: ExplorerFilters = {
+  query: '',
+  label: 'All',
+  category: 'All',
+  verified: 'All',
+  language: 'All'
+};
+
+export const DEFAULT_VIEW: DashboardView = {
+  chart: 'pie',
+  run: null,
+  range: null,
+  segment: 'Product_Category',
+  term: null,
+  emotion: null,
+  filters: DEFAULT_EXPLORER_FILTERS,
+  formula: 'raw',
+  exclude_low_quality: true
+};
+
+const VERIFIED_FILTERS: ExplorerFilters['verified'][] = ['All', 'Verified', 'Unverified'];
+const ISO_DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+const oneOf = <T extends string>(value: string | null, options: readonly T[], fallback: T): T =>
+  value !== null && (options as readonly string[]).includes(value) ? (value as T) : fallback;
+
+/**
+ * The view as URL query parameters. Defaults are left out so an untouched dashboard keeps a
+ * clean URL, and links stay short.
+ */
+export const encodeView = (view: DashboardView): string => {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | null, fallback: string | null) => {
+    if (value !== null && value !== fallback) params.set(key, value);
+  };
+  set('chart', view.chart, DEFAULT_VIEW.chart);
+  set('run', view.run, null);
+  if (view.range) {
+    params.set('from', view.range.start);
+    params.set('to', view.range.end);
+  }
+  set('segment', view.segment, DEFAULT_VIEW.segment);
+  set('term', view.term, null);
+  set('emotion', view.emotion, null);
+  set('q', view.filters.query, DEFAULT_EXPLORER_FILTERS.query);
+  set('label', view.filters.label, DEFAULT_EXPLORER_FILTERS.label);
+  set('category', view.filters.category, DEFAULT_EXPLORER_FILTERS.category);
+  set('verified', view.filters.verified, DEFAULT_EXPLORER_FILTERS.verified);
+  set('lang', view.filters.language, DEFAULT_EXPLORER_FILTERS.language);
+  set('formula', view.formula, DEFAULT_VIEW.formula);
+  if (!view.exclude_low_quality) params.set('quality', 'all');
+  return params.toString();
+};
+
+/** Reads a view back from a query string; anything missing or unrecognised falls back to the default. */
+export const decodeView = (search: string): DashboardView => {
+  const params = new URLSearchParams(search);
+  const from = params.get('from');
+  const to = params.get('to');
+  return {
+    chart: oneOf(params.get('chart'), CHART_TYPES, DEFAULT_VIEW.chart),
+    run: params.get('run') || null,
+    range: from && to && ISO_DAY.test(from) && ISO_DAY.test(to) && from <= to ? { start: from, end: to } : null,
+    segment: oneOf(params.get('segment'), SEGMENT_DIMENSIONS.map(option => option.dimension), DEFAULT_VIEW.segment),
+    term: params.get('term') || null,
+    emotion: oneOf<Emotion | ''>(params.get('emotion'), EMOTIONS, '') || null,
+    filters: {
+      query: params.get('q') ?? DEFAULT_EXPLORER_FILTERS.query,
+      label: oneOf<SentimentLabel | 'All'>(params.get('label'), LABELS, DEFAULT_EXPLORER_FILTERS.label),
+      category: params.get('category') || DEFAULT_EXPLORER_FILTERS.category,
+      verified: oneOf(params.get('verified'), VERIFIED_FILTERS, DEFAULT_EXPLORER_FILTERS.verified),
+      language: params.get('lang') || DEFAULT_EXPLORER_FILTERS.language
+    },
+    formula: oneOf(params.get('formula'), SATISFACTION_FORMULAS.map(option => option.id), DEFAULT_VIEW.formula),
+    exclude_low_quality: params.get('quality') !== 'all'
+  };
+};
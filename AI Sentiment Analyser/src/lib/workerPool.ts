@@ -0,0 +1,385 @@
+import { AnalysisResults, ReviewRecord, ScoredReview } from '../types';
+import { AnalysisOptions, scoreReviews, summarizeReviews } from './analysis';
+import { ClassifierKind, ClassifierModel, TrainingSample, crossValidate, trainClassifier } from './classifier';
+import { SatisfactionOptions, SatisfactionSample, bootstrapSatisfaction } from './satisfaction';
+import { QualityIssue, assessQuality } from './quality';
+
+export interface ScoreRequest {
+  id: number;
+  reviews: ReviewRecord[];
+  options: AnalysisOptions;
+}
+
+export type ScoreResponse = { id: number; scored: ScoredReview[]; error?: undefined } | { id: number; error: string };
+
+export interface ScoringProgress {
+  scored: number;
+  total: number;
+}
+
+export interface ScoringControls {
+  onProgress?: (progress: ScoringProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface TrainRequest {
+  samples: TrainingSample[];
+  kind: ClassifierKind;
+  folds: number;
+}
+
+export type TrainResponse =
+  | { type: 'fold'; completed: number; total: number }
+  | { type: 'done'; model: ClassifierModel }
+  | { type: 'error'; error: string };
+
+export interface TrainingProgress {
+  /** Cross-validation folds finished; the final fit on every sample follows the last one. */
+  completed: number;
+  total: number;
+}
+
+export interface BootstrapRequest {
+  samples: SatisfactionSample[];
+  options: SatisfactionOptions;
+}
+
+export type BootstrapResponse = { lower: number; upper: number; error?: undefined } | { error: string };
+
+/** The only fields a filtered view changes that its summary reads. */
+export const VIEW_LABEL_FIELDS = ['textblob_label', 'vader_label', 'classifier_label'] as const;
+
+export type ViewLabels = Pick<ScoredReview, (typeof VIEW_LABEL_FIELDS)[number]>;
+
+/**
+ * A view of the loaded run: the run positions of its reviews in order, and the labels of those
+ * (by index into `positions`) that differ from the run's.
+ */
+export interface ViewSelection {
+  positions: number[];
+  labels: Array<{ index: number; labels: ViewLabels }>;
+}
+
+export type RunRequest =
+  | { type: 'load'; reviews: ScoredReview[] }
+  | { type: 'summarize'; id: number; view: ViewSelection; options: AnalysisOptions }
+  | { type: 'quality'; id: number };
+
+/** A summary always comes back without `reviews`; the caller already holds them. */
+export type RunSummary = Omit<AnalysisResults, 'reviews'>;
+
+export type RunResponse = { id: number; result: RunSummary | QualityIssue[]; error?: undefined } | { id: number; error: string };
+
+const CHUNK_SIZE = 1000;
+const MAX_WORKERS = 4;
+
+export const abortError = () => new DOMException('Analysis cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+const poolSize = (chunks: number) =>
+  Math.max(1, Math.min(chunks, MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+
+/**
+ * Scores reviews in chunks across a pool of Web Workers, reporting progress after every chunk.
+ * Aborting the signal terminates the workers and rejects with an AbortError. Falls back to the
+ * main thread where workers are unavailable.
+ */
+export const scoreInWorkers = (
+  reviews: ReviewRecord[],
+  options: AnalysisOptions,
+  { onProgress, signal }: ScoringControls = {}
+): Promise<ScoredReview[]> => {
+  if (signal?.aborted) return Promise.reject(abortError());
+  if (typeof Worker === 'undefined' || reviews.length === 0) {
+    const scored = scoreReviews(reviews, options);
+    onProgress?.({ scored: scored.length, total: reviews.length });
+    return Promise.resolve(scored);
+  }
+
+  const chunks: ReviewRecord[][] = [];
+  for (let start = 0; start < reviews.length; start += CHUNK_SIZE) chunks.push(reviews.slice(start, start + CHUNK_SIZE));
+
+  return new Promise((resolve, reject) => {
+    const results: ScoredReview[][] = new Array(chunks.length);
+    const workers = Array.from({ length: poolSize(chunks.length) }, () =>
+      new Worker(new URL('../workers/scoreWorker.ts', import.meta.url), { type: 'module' })
+    );
+    let next = 0;
+    let completed = 0;
+    let scored = 0;
+
+    const cancel = () => fail(abortError());
+    const stop = () => {
+      workers.forEach(worker => worker.terminate());
+      signal?.removeEventListener('abort', cancel);
+    };
+    const fail = (error: unknown) => {
+      stop();
+      reject(error);
+    };
+    const dispatch = (worker: Worker) => {
+      if (next >= chunks.length) return;
+      const request: ScoreRequest = { id: next, reviews: chunks[next], options };
+      next++;
+      worker.postMessage(request);
+    };
+
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    workers.forEach(worker => {
+      worker.onmessage = (event: MessageEvent<ScoreResponse>) => {
+        const response = event.data;
+        if (response.error !== undefined) return fail(new Error(response.error));
+
+        results[response.id] = response.scored;
+        completed++;
+        scored += response.scored.length;
+        onProgress?.({ scored, total: reviews.length });
+
+        if (completed === chunks.length) {
+          stop();
+          resolve(results.flat());
+        } else {
+          dispatch(worker);
+        }
+      };
+      worker.onerror = event => fail(new Error(event.message || 'Scoring worker failed'));
+      dispatch(worker);
+    });
+  });
+};
+
+/** Cross-validates and then fits a classifier on all samples, reproducing `trainInWorker` without a worker. */
+export const trainWithValidation = (
+  { samples, kind, folds }: TrainRequest,
+  onProgress?: (progress: TrainingProgress) => void
+): ClassifierModel => {
+  const validation = crossValidate(samples, kind, folds, (completed, total) => onProgress?.({ completed, total }));
+  return trainClassifier(samples, kind, validation);
+};
+
+/**
+ * Trains a classifier in a dedicated Web Worker, reporting each finished cross-validation fold.
+ * Aborting terminates the worker; falls back to the main thread where workers are unavailable.
+ */
+export const trainInWorker = (
+  request: TrainRequest,
+  { onProgress, signal }: { onProgress?: (progress: TrainingProgress) => void; signal?: AbortSignal } = {}
+): Promise<ClassifierModel> => {
+  if (signal?.aborted) return Promise.reject(abortError());
+  if (typeof Worker === 'undefined') {
+    try {
+      return Promise.resolve(trainWithValidation(request, onProgress));
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/trainWorker.ts', import.meta.url), { type: 'module' });
+    const cancel = () => fail(abortError());
+    const stop = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', cancel);
+    };
+    const fail = (error: unknown) => {
+      stop();
+      reject(error);
+    };
+
+    signal?.addEventListener('abort', cancel, { once: true });
+    worker.onmessage = (event: MessageEvent<TrainResponse>) => {
+      const response = event.data;
+      if (response.type === 'fold') {
+        onProgress?.({ completed: response.completed, total: response.total });
+      } else if (response.type === 'error') {
+        fail(new Error(response.error));
+      } else {
+        stop();
+        resolve(response.model);
+      }
+    };
+    worker.onerror = event => fail(new Error(event.message || 'Training worker failed'));
+    worker.postMessage(request);
+  });
+};
+
+/**
+ * Computes a satisfaction confidence interval in a dedicated Web Worker so a large import does not
+ * block the page. Aborting terminates the worker; falls back to the main thread where workers are
+ * unavailable.
+ */
+export const bootstrapInWorker = (
+  request: BootstrapRequest,
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<{ lower: number; upper: number }> => {
+  if (signal?.aborted) return Promise.reject(abortError());
+  if (typeof Worker === 'undefined') {
+    try {
+      return Promise.resolve(bootstrapSatisfaction(request.samples, request.options));
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/bootstrapWorker.ts', import.meta.url), { type: 'module' });
+    const cancel = () => fail(abortError());
+    const stop = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', cancel);
+    };
+    const fail = (error: unknown) => {
+      stop();
+      reject(error);
+    };
+
+    signal?.addEventListener('abort', cancel, { once: true });
+    worker.onmessage = (event: MessageEvent<BootstrapResponse>) => {
+      const response = event.data;
+      if (response.error !== undefined) return fail(new Error(response.error));
+      stop();
+      resolve({ lower: response.lower, upper: response.upper });
+    };
+    worker.onerror = event => fail(new Error(event.message || 'Bootstrap worker failed'));
+    worker.postMessage(request);
+  });
+};
+
+interface RunSession {
+  worker: Worker;
+  reviews: ScoredReview[];
+  positions: Map<string, number>;
+  pending: Map<number, { resolve: (result: unknown) => void; reject: (error: unknown) => void }>;
+}
+
+let runSession: RunSession | null = null;
+let nextRunRequest = 0;
+
+const closeRunSession = (error: unknown) => {
+  if (!runSession) return;
+  runSession.worker.terminate();
+  runSession.pending.forEach(({ reject }) => reject(error));
+  runSession = null;
+};
+
+/**
+ * The run worker keeps one run's reviews, posted once, so every later request over that run only
+ * sends positions and labels. Loading another run replaces it.
+ */
+const openRunSession = (reviews: ScoredReview[]): RunSession => {
+  if (runSession?.reviews === reviews) return runSession;
+  const positions = new Map(reviews.map((review, position) => [review.Review_ID, position]));
+  closeRunSession(abortError());
+  const session: RunSession = {
+    worker: new Worker(new URL('../workers/runWorker.ts', import.meta.url), { type: 'module' }),
+    reviews,
+    positions,
+    pending: new Map()
+  };
+  session.worker.onmessage = (event: MessageEvent<RunResponse>) => {
+    const response = event.data;
+    const request = session.pending.get(response.id);
+    session.pending.delete(response.id);
+    if (response.error !== undefined) request?.reject(new Error(response.error));
+    else request?.resolve(response.result);
+  };
+  session.worker.onerror = event => {
+    if (runSession === session) closeRunSession(new Error(event.message || 'Run worker failed'));
+  };
+  const load: RunRequest = { type: 'load', reviews };
+  session.worker.postMessage(load);
+  runSession = session;
+  return session;
+};
+
+/** Positions of `view` in the session's run plus the labels that differ, or null if a review is not in it. */
+const selectView = (session: RunSession, view: ScoredReview[]): ViewSelection | null => {
+  // Views are matched to the run by Review_ID, which older saved runs do not always keep unique
+  if (session.positions.size < session.reviews.length) return null;
+  const selection: ViewSelection = { positions: [], labels: [] };
+  for (const [index, review] of view.entries()) {
+    const position = session.positions.get(review.Review_ID);
+    if (position === undefined) return null;
+    selection.positions.push(position);
+    const original = session.reviews[position];
+    if (VIEW_LABEL_FIELDS.some(field => review[field] !== original[field])) {
+      selection.labels.push({
+        index,
+        labels: { textblob_label: review.textblob_label, vader_label: review.vader_label, classifier_label: review.classifier_label }
+      });
+    }
+  }
+  return selection;
+};
+
+/**
+ * Sends one request to the run worker and resolves with its response. Aborting drops the request,
+ * and terminates the worker when nothing else is waiting on it.
+ */
+const requestRun = <Result>(
+  session: RunSession,
+  request: (id: number) => RunRequest,
+  signal?: AbortSignal
+): Promise<Result> =>
+  new Promise((resolve, reject) => {
+    const id = nextRunRequest++;
+    const cancel = () => {
+      session.pending.delete(id);
+      if (session.pending.size === 0 && runSession === session) closeRunSession(abortError());
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+    session.pending.set(id, {
+      resolve: result => {
+        signal?.removeEventListener('abort', cancel);
+        resolve(result as Result);
+      },
+      reject: error => {
+        signal?.removeEventListener('abort', cancel);
+        reject(error);
+      }
+    });
+    session.worker.postMessage(request(id));
+  });
+
+/**
+ * Summarizes `view`, a filtered or relabeled copy of `run`, in the run worker. Only the first
+ * request for a run posts its reviews; on a large dataset the summary itself takes seconds, after
+ * every analysis and on every filter change, so none of it runs on the page. Falls back to the main
+ * thread where workers are unavailable.
+ */
+export const summarizeInWorker = async (
+  run: ScoredReview[],
+  view: ScoredReview[] = run,
+  options: AnalysisOptions = {},
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<AnalysisResults> => {
+  signal?.throwIfAborted();
+  if (typeof Worker === 'undefined') return summarizeReviews(view, options);
+
+  let session = openRunSession(run);
+  let selection = selectView(session, view);
+  if (!selection) {
+    // A view that cannot be matched to its run is posted whole as a run of its own
+    session = openRunSession(view);
+    selection = selectView(session, view);
+    if (!selection) return summarizeReviews(view, options);
+  }
+  const summary = await requestRun<RunSummary>(session, id => ({ type: 'summarize', id, view: selection, options }), signal);
+  return { ...summary, reviews: view };
+};
+
+/**
+ * Checks the run's reviews for duplicates and spam in the run worker; on a large dataset this takes
+ * seconds. Issue positions refer to `run`. Falls back to the main thread where workers are unavailable.
+ */
+export const assessQualityInWorker = async (
+  run: ScoredReview[],
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<QualityIssue[]> => {
+  signal?.throwIfAborted();
+  if (typeof Worker === 'undefined') return assessQuality(run);
+  return requestRun<QualityIssue[]>(openRunSession(run), id => ({ type: 'quality', id }), signal);
+};
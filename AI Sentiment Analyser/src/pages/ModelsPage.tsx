@@ -0,0 +1,31 @@
+import React from 'react';
+import { Target } from 'lucide-react';
+import { useAnalysis } from '../lib/analysisContext';
+import EmptyState from '../components/EmptyState';
+import ModelEvaluation from '../components/ModelEvaluation';
+import ClassifierTrainer from '../components/ClassifierTrainer';
+
+const ModelsPage: React.FC = () => {
+  const { results, evaluationReviews, allReviews, classifier, onClassifierChange } = useAnalysis();
+
+  if (!results) {
+    return (
+      <EmptyState icon={<Target className="w-20 h-20 text-white" />} title="No run to evaluate yet">
+        Run an analysis or open a saved run from History to check the model against star ratings and train a
+        classifier on your own labels.
+      </EmptyState>
+    );
+  }
+
+  return (
+    <>
+      {/* Rating Agreement */}
+      <ModelEvaluation reviews={evaluationReviews} />
+
+      {/* Trained Classifier */}
+      <ClassifierTrainer reviews={allReviews} model={classifier} onModelChange={onClassifierChange} />
+    </>
+  );
+};
+
+export default ModelsPage;
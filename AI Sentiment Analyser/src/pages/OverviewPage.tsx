@@ -0,0 +1,442 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
+  PieChart, Pie, Cell, LineChart, Line, Legend, Area, AreaChart
+} from 'recharts';
+import { BarChart3, FileText, Eye, MessageCircle, Heart, Target, Award, CalendarDays, X, Brain } from 'lucide-react';
+import { useAnalysis } from '../lib/analysisContext';
+import { downsamplePolarity } from '../lib/downsample';
+import { SATISFACTION_FORMULAS, SatisfactionFormula } from '../lib/satisfaction';
+import { satisfactionTrend } from '../lib/metrics';
+import EmptyState from '../components/EmptyState';
+import StatCard from '../components/StatCard';
+import ChartSelector from '../components/ChartSelector';
+import SentimentTimeline from '../components/SentimentTimeline';
+import EmotionBreakdown from '../components/EmotionBreakdown';
+
+const OverviewPage: React.FC = () => {
+  const {
+    view, verifiedCount, excludedCount, satisfaction, timelineReviews, chart, onChartChange, dateRange, onDateRangeChange,
+    formula, onFormulaChange, showReviews
+  } = useAnalysis();
+
+  const polarityPoints = useMemo(() => (view ? downsamplePolarity(view.chart_data.polarity_scores) : []), [view]);
+  const showDots = polarityPoints.length <= 30;
+  // The interval follows a moment later from a worker
+  const interval = satisfaction.lower === null ? 'estimating…' : `${satisfaction.lower}–${satisfaction.upper}`;
+
+  if (!view) {
+    return (
+      <EmptyState icon={<Brain className="w-20 h-20 text-white" />} title="Ready to Unleash AI Magic? ✨">
+        Transform 50+ enhanced product reviews into actionable insights with advanced NLP sentiment analysis. 
+        Discover patterns across categories, ratings, and customer behavior! 🚀
+      </EmptyState>
+    );
+  }
+
+  return (
+    <>
+      {dateRange && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center justify-between gap-4 px-6 py-4 bg-white/10 backdrop-blur-xl rounded-2xl border border-white/20 text-white"
+        >
+          <span className="flex items-center gap-3 font-medium">
+            <CalendarDays className="w-5 h-5 text-pink-400" />
+            Showing {view.insights.total_reviews} reviews from {dateRange.start} to {dateRange.end}
+          </span>
+          <button
+            onClick={() => onDateRangeChange(null)}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white/20 hover:bg-white/30 text-sm font-semibold"
+          >
+            <X className="w-4 h-4" />
+            Clear range
+          </button>
+        </motion.div>
+      )}
+
+      {/* Stats Grid */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
+        <StatCard
+          title="Total Reviews"
+          value={view.insights.total_reviews}
+          icon={<MessageCircle className="w-7 h-7" />}
+          gradient="from-blue-500 via-purple-500 to-pink-500"
+          subtitle={[
+            verifiedCount > 0 && `${verifiedCount} manually verified`,
+            excludedCount > 0 && `${excludedCount} excluded as low quality`
+          ].filter(Boolean).join(' · ') || undefined}
+          delay={0}
+        />
+        <StatCard
+          title="Satisfaction Score"
+          value={satisfaction.score === null ? 'n/a' : `${satisfaction.score}/100`}
+          icon={<Award className="w-7 h-7" />}
+          gradient="from-green-400 via-blue-500 to-purple-600"
+          subtitle={satisfaction.score === null
+            ? `${SATISFACTION_FORMULAS.find(option => option.id === formula)?.empty}, so this formula has nothing to score`
+            : `${satisfactionTrend(satisfaction.score)} · ${Math.round(satisfaction.level * 100)}% CI ${interval} · ${satisfaction.reviews} reviews`}
+          delay={0.1}
+          footer={
+            <select
+              value={formula}
+              onChange={event => onFormulaChange(event.target.value as SatisfactionFormula)}
+              title={SATISFACTION_FORMULAS.find(option => option.id === formula)?.description}
+              className="w-full bg-white/20 border border-white/30 rounded-lg px-2 py-1 text-xs font-medium text-white"
+            >
+              {SATISFACTION_FORMULAS.map(option => (
+                <option key={option.id} value={option.id} className="text-gray-900">{option.label}</option>
+              ))}
+            </select>
+          }
+        />
+        <StatCard
+          title="Positive Vibes"
+          value={`${view.insights.textblob_percentages.Positive}%`}
+          icon={<Heart className="w-7 h-7" />}
+          gradient="from-pink-400 via-red-400 to-yellow-400"
+          delay={0.2}
+        />
+        <StatCard
+          title="Needs Attention"
+          value={`${view.insights.textblob_percentages.Negative}%`}
+          icon={<Target className="w-7 h-7" />}
+          gradient="from-orange-400 via-red-400 to-pink-500"
+          delay={0.3}
+        />
+      </div>
+
+      {/* Main Chart Section */}
+      <motion.div
+        initial={{ opacity: 0, y: 50 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.4, duration: 0.8 }}
+        className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20"
+      >
+        <ChartSelector selected={chart} onSelect={onChartChange} />
+        
+        <div className="h-96 relative">
+          <motion.div
+            key={chart}
+            initial={{ opacity: 0, scale: 0.8 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ duration: 0.5 }}
+            className="h-full"
+          >
+            {chart === 'pie' && (
+              <ResponsiveContainer width="100%" height="100%">
+                <PieChart>
+                  <Pie
+                    data={view.chart_data.sentiment_distribution}
+                    cx="50%"
+                    cy="50%"
+                    labelLine={false}
+                    label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
+                    outerRadius={140}
+                    fill="#8884d8"
+                    dataKey="value"
+                    animationBegin={0}
+                    animationDuration={1000}
+                  >
+                    {view.chart_data.sentiment_distribution.map((entry, index) => (
+                      <Cell key={`cell-${index}`} fill={entry.color} />
+                    ))}
+                  </Pie>
+                  <Tooltip 
+                    contentStyle={{
+                      backgroundColor: 'rgba(255,255,255,0.9)',
+                      border: 'none',
+                      borderRadius: '12px',
+                      boxShadow: '0 10px 30px rgba(0,0,0,0.2)'
+                    }}
+                  />
+                </PieChart>
+              </ResponsiveContainer>
+            )}
+
+            {chart === 'bar' && (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={view.chart_data.sentiment_comparison}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+                  <XAxis dataKey="method" stroke="white" />
+                  <YAxis stroke="white" />
+                  <Tooltip 
+                    contentStyle={{
+                      backgroundColor: 'rgba(255,255,255,0.9)',
+                      border: 'none',
+                      borderRadius: '12px',
+                      boxShadow: '0 10px 30px rgba(0,0,0,0.2)'
+                    }}
+                  />
+                  <Legend />
+                  <Bar dataKey="positive" fill="#FF6B9D" name="Positive" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="negative" fill="#FF8E53" name="Negative" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="neutral" fill="#4ECDC4" name="Neutral" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+
+            {chart === 'line' && (
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={polarityPoints}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+                  <XAxis dataKey="Review_ID" stroke="white" />
+                  <YAxis domain={[-1, 1]} stroke="white" />
+                  <Tooltip 
+                    contentStyle={{
+                      backgroundColor: 'rgba(255,255,255,0.9)',
+                      border: 'none',
+                      borderRadius: '12px',
+                      boxShadow: '0 10px 30px rgba(0,0,0,0.2)'
+                    }}
+                  />
+                  <Legend />
+                  <Line 
+                    type="monotone" 
+                    dataKey="TB_Polarity" 
+                    stroke="#FF6B9D" 
+                    name="TextBlob Polarity" 
+                    strokeWidth={4}
+                    dot={showDots && { fill: '#FF6B9D', strokeWidth: 2, r: 6 }}
+                    activeDot={{ r: 8, stroke: '#FF6B9D', strokeWidth: 2 }}
+                  />
+                  <Line 
+                    type="monotone" 
+                    dataKey="VADER_Compound" 
+                    stroke="#4ECDC4" 
+                    name="VADER Compound" 
+                    strokeWidth={4}
+                    dot={showDots && { fill: '#4ECDC4', strokeWidth: 2, r: 6 }}
+                    activeDot={{ r: 8, stroke: '#4ECDC4', strokeWidth: 2 }}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+
+            {chart === 'area' && (
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={polarityPoints}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+                  <XAxis dataKey="Review_ID" stroke="white" />
+                  <YAxis domain={[-1, 1]} stroke="white" />
+                  <Tooltip 
+                    contentStyle={{
+                      backgroundColor: 'rgba(255,255,255,0.9)',
+                      border: 'none',
+                      borderRadius: '12px',
+                      boxShadow: '0 10px 30px rgba(0,0,0,0.2)'
+                    }}
+                  />
+                  <Legend />
+                  <Area 
+                    type="monotone" 
+                    dataKey="TB_Polarity" 
+                    stackId="1"
+                    stroke="#FF6B9D" 
+                    fill="url(#colorPositive)"
+                    name="TextBlob Polarity"
+                  />
+                  <Area 
+                    type="monotone" 
+                    dataKey="VADER_Compound" 
+                    stackId="2"
+                    stroke="#4ECDC4" 
+                    fill="url(#colorNeutral)"
+                    name="VADER Compound"
+                  />
+                  <defs>
+                    <linearGradient id="colorPositive" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor="#FF6B9D" stopOpacity={0.8}/>
+                      <stop offset="95%" stopColor="#FF6B9D" stopOpacity={0.1}/>
+                    </linearGradient>
+                    <linearGradient id="colorNeutral" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor="#4ECDC4" stopOpacity={0.8}/>
+                      <stop offset="95%" stopColor="#4ECDC4" stopOpacity={0.1}/>
+                    </linearGradient>
+                  </defs>
+                </AreaChart>
+              </ResponsiveContainer>
+            )}
+
+            {chart === 'timeline' && (
+              <SentimentTimeline reviews={timelineReviews} range={dateRange} onRangeChange={onDateRangeChange} />
+            )}
+          </motion.div>
+        </div>
+      </motion.div>
+
+      {/* Insights Grid */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Technical Metrics */}
+        <motion.div
+          initial={{ opacity: 0, x: -50 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: 0.6, duration: 0.8 }}
+          className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20"
+        >
+          <h3 className="text-2xl font-bold mb-8 flex items-center gap-3 text-white">
+            <motion.div
+              animate={{ rotate: [0, 360] }}
+              transition={{ duration: 10, repeat: Infinity, ease: "linear" }}
+            >
+              <BarChart3 className="w-7 h-7 text-pink-400" />
+            </motion.div>
+            Technical Metrics
+          </h3>
+          <div className="space-y-6">
+            {[
+              { label: 'Average Polarity', value: view.insights.average_polarity, color: view.insights.average_polarity > 0 ? 'from-green-400 to-blue-500' : 'from-red-400 to-pink-500' },
+              { label: 'Average Subjectivity', value: view.insights.average_subjectivity, color: 'from-purple-400 to-pink-500' },
+              { label: 'VADER Compound', value: view.insights.average_vader_compound, color: view.insights.average_vader_compound > 0 ? 'from-green-400 to-blue-500' : 'from-red-400 to-pink-500' }
+            ].map((metric, index) => (
+              <motion.div
+                key={metric.label}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.8 + index * 0.1 }}
+                whileHover={{ scale: 1.02 }}
+                className={`flex justify-between items-center p-4 bg-gradient-to-r ${metric.color} rounded-2xl shadow-lg`}
+              >
+                <span className="font-semibold text-white">{metric.label}</span>
+                <motion.span 
+                  initial={{ scale: 0 }}
+                  animate={{ scale: 1 }}
+                  transition={{ delay: 1 + index * 0.1, type: "spring", bounce: 0.6 }}
+                  className="font-bold text-white text-lg"
+                >
+                  {metric.value}
+                </motion.span>
+              </motion.div>
+            ))}
+          </div>
+        </motion.div>
+
+        {/* Word Analysis */}
+        <motion.div
+          initial={{ opacity: 0, x: 50 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: 0.7, duration: 0.8 }}
+          className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20"
+        >
+          <h3 className="text-2xl font-bold mb-8 flex items-center gap-3 text-white">
+            <motion.div
+              animate={{ scale: [1, 1.2, 1] }}
+              transition={{ duration: 2, repeat: Infinity }}
+            >
+              <Eye className="w-7 h-7 text-blue-400" />
+            </motion.div>
+            Word Magic Analysis
+          </h3>
+          <div className="space-y-8">
+            <div>
+              <h4 className="font-bold text-green-400 mb-4 text-lg">✨ Most Positive Words</h4>
+              <div className="flex flex-wrap gap-3">
+                {view.insights.top_positive_words.map((word, index) => (
+                  <motion.span
+                    key={index}
+                    initial={{ opacity: 0, scale: 0 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    transition={{ delay: 0.9 + index * 0.1, type: "spring", bounce: 0.6 }}
+                    whileHover={{ scale: 1.1, rotate: 5 }}
+                    onClick={() => showReviews({ term: word })}
+                    className="px-4 py-2 bg-gradient-to-r from-green-400 to-blue-500 text-white rounded-full text-sm font-semibold shadow-lg cursor-pointer"
+                  >
+                    {word}
+                  </motion.span>
+                ))}
+              </div>
+            </div>
+            <div>
+              <h4 className="font-bold text-red-400 mb-4 text-lg">⚠️ Most Negative Words</h4>
+              <div className="flex flex-wrap gap-3">
+                {view.insights.top_negative_words.map((word, index) => (
+                  <motion.span
+                    key={index}
+                    initial={{ opacity: 0, scale: 0 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    transition={{ delay: 1.2 + index * 0.1, type: "spring", bounce: 0.6 }}
+                    whileHover={{ scale: 1.1, rotate: -5 }}
+                    onClick={() => showReviews({ term: word })}
+                    className="px-4 py-2 bg-gradient-to-r from-red-400 to-pink-500 text-white rounded-full text-sm font-semibold shadow-lg cursor-pointer"
+                  >
+                    {word}
+                  </motion.span>
+                ))}
+              </div>
+            </div>
+          </div>
+        </motion.div>
+      </div>
+
+      {/* Example Reviews */}
+      <motion.div
+        initial={{ opacity: 0, y: 50 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.8, duration: 0.8 }}
+        className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20"
+      >
+        <h3 className="text-2xl font-bold mb-8 flex items-center gap-3 text-white">
+          <motion.div
+            animate={{ rotate: [0, 10, -10, 0] }}
+            transition={{ duration: 3, repeat: Infinity }}
+          >
+            <FileText className="w-7 h-7 text-purple-400" />
+          </motion.div>
+          Review Highlights
+        </h3>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <motion.div
+            initial={{ opacity: 0, x: -30 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: 1, duration: 0.6 }}
+            whileHover={{ scale: 1.02 }}
+            className="border-l-4 border-green-400 pl-6 bg-gradient-to-r from-green-500/20 to-transparent rounded-r-2xl p-6"
+          >
+            <h4 className="font-bold text-green-400 mb-4 text-lg flex items-center gap-2">
+              <Heart className="w-5 h-5" />
+              Most Positive Review
+            </h4>
+            <p className="text-white/90 text-sm mb-4 leading-relaxed">{view.insights.most_positive_review.text}</p>
+            <div className="flex items-center gap-4 text-xs text-green-300">
+              <span className="bg-green-500/20 px-3 py-1 rounded-full">
+                Polarity: {view.insights.most_positive_review.polarity}
+              </span>
+              <span className="bg-green-500/20 px-3 py-1 rounded-full">
+                ID: {view.insights.most_positive_review.id}
+              </span>
+            </div>
+          </motion.div>
+          
+          <motion.div
+            initial={{ opacity: 0, x: 30 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: 1.1, duration: 0.6 }}
+            whileHover={{ scale: 1.02 }}
+            className="border-l-4 border-red-400 pl-6 bg-gradient-to-r from-red-500/20 to-transparent rounded-r-2xl p-6"
+          >
+            <h4 className="font-bold text-red-400 mb-4 text-lg flex items-center gap-2">
+              <Target className="w-5 h-5" />
+              Most Negative Review
+            </h4>
+            <p className="text-white/90 text-sm mb-4 leading-relaxed">{view.insights.most_negative_review.text}</p>
+            <div className="flex items-center gap-4 text-xs text-red-300">
+              <span className="bg-red-500/20 px-3 py-1 rounded-full">
+                Polarity: {view.insights.most_negative_review.polarity}
+              </span>
+              <span className="bg-red-500/20 px-3 py-1 rounded-full">
+                ID: {view.insights.most_negative_review.id}
+              </span>
+            </div>
+          </motion.div>
+        </div>
+      </motion.div>
+
+      {/* Emotions */}
+      {view.emotions && <EmotionBreakdown emotions={view.emotions} onShowReviews={emotion => showReviews({ emotion })} />}
+    </>
+  );
+};
+
+export default OverviewPage;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { MessageSquareText } from 'lucide-react';
+import { useAnalysis } from '../lib/analysisContext';
+import EmptyState from '../components/EmptyState';
+import TermExplorer from '../components/TermExplorer';
+import NeedsReviewQueue from '../components/NeedsReviewQueue';
+import QualityPanel from '../components/QualityPanel';
+import ReviewExplorer from '../components/ReviewExplorer';
+
+const ReviewsPage: React.FC = () => {
+  const {
+    results, view, dataset, lexiconVersion, scoredReviews, qualityIssues, term, onTermChange, emotion, onEmotionChange,
+    filters, onFiltersChange, excludeLowQuality, onExcludeLowQualityChange
+  } = useAnalysis();
+
+  if (!results || !view) {
+    return (
+      <EmptyState icon={<MessageSquareText className="w-20 h-20 text-white" />} title="No reviews to explore yet">
+        Run an analysis or open a saved run from History to search reviews by keyword, label the uncertain ones and
+        check them for duplicates and spam.
+      </EmptyState>
+    );
+  }
+
+  return (
+    <>
+      {/* Keyword Explorer */}
+      <TermExplorer reviews={scoredReviews} selectedTerm={term} onSelectTerm={onTermChange} />
+
+      {/* Needs Review */}
+      <NeedsReviewQueue reviews={scoredReviews} />
+
+      {/* Review Quality */}
+      <QualityPanel
+        reviews={results.reviews}
+        issues={qualityIssues}
+        exclude={excludeLowQuality}
+        onExcludeChange={onExcludeLowQualityChange}
+      />
+
+      {/* Review Explorer */}
+      <ReviewExplorer
+        reviews={view.reviews}
+        dataset={dataset.name}
+        lexiconVersion={lexiconVersion}
+        term={term}
+        onClearTerm={() => onTermChange(null)}
+        emotion={emotion}
+        onEmotionChange={onEmotionChange}
+        filters={filters}
+        onFiltersChange={onFiltersChange}
+      />
+    </>
+  );
+};
+
+export default ReviewsPage;
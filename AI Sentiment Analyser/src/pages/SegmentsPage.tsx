@@ -0,0 +1,40 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { useAnalysis } from '../lib/analysisContext';
+import EmptyState from '../components/EmptyState';
+import SegmentBreakdown from '../components/SegmentBreakdown';
+import AspectSentiment from '../components/AspectSentiment';
+import LanguageBreakdown from '../components/LanguageBreakdown';
+
+const SegmentsPage: React.FC = () => {
+  const { view, scoredReviews, segment, onSegmentChange } = useAnalysis();
+
+  if (!view) {
+    return (
+      <EmptyState icon={<Layers className="w-20 h-20 text-white" />} title="No segments to compare yet">
+        Run an analysis or open a saved run from History to break sentiment down by category, rating, aspect and
+        language.
+      </EmptyState>
+    );
+  }
+
+  return (
+    <>
+      {/* Segment Breakdown */}
+      <SegmentBreakdown
+        segments={view.segments}
+        reviews={scoredReviews}
+        dimension={segment}
+        onDimensionChange={onSegmentChange}
+      />
+
+      {/* Aspect Sentiment */}
+      <AspectSentiment aspects={view.aspects} />
+
+      {/* Language Breakdown */}
+      {view.languages && <LanguageBreakdown languages={view.languages} />}
+    </>
+  );
+};
+
+export default SegmentsPage;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { SlidersHorizontal } from 'lucide-react';
+import { useAnalysis } from '../lib/analysisContext';
+import { SATISFACTION_FORMULAS } from '../lib/satisfaction';
+
+const SettingsPage: React.FC = () => {
+  const {
+    results, formula, onFormulaChange, preferHuman, onPreferHumanChange, verifiedCount, excludeLowQuality,
+    onExcludeLowQualityChange, qualityIssues
+  } = useAnalysis();
+
+  const toggleClass = 'flex items-start gap-3 p-4 rounded-2xl bg-white/10 border border-white/20 text-white cursor-pointer';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 50 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.8 }}
+      className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-white/20"
+    >
+      <h3 className="text-2xl font-bold mb-2 flex items-center gap-3 text-white">
+        <SlidersHorizontal className="w-7 h-7 text-purple-400" />
+        Settings
+      </h3>
+      <p className="text-white/70 text-sm mb-8">
+        These apply to every page and to runs not analyzed yet. The satisfaction formula and quality filter are part of the
+        page link and saved views.
+      </p>
+
+      <h4 className="font-bold text-white mb-4 text-lg">Satisfaction formula</h4>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-8">
+        {SATISFACTION_FORMULAS.map(option => (
+          <label
+            key={option.id}
+            className={`${toggleClass} ${formula === option.id ? 'ring-2 ring-pink-400' : 'hover:bg-white/20'}`}
+          >
+            <input
+              type="radio"
+              name="satisfaction-formula"
+              checked={formula === option.id}
+              onChange={() => onFormulaChange(option.id)}
+              className="mt-1"
+            />
+            <span>
+              <span className="block font-semibold">{option.label}</span>
+              <span className="block text-sm text-white/70">{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <h4 className="font-bold text-white mb-4 text-lg">Metrics</h4>
+      <div className="space-y-3">
+        <label className={toggleClass}>
+          <input
+            type="checkbox"
+            checked={preferHuman}
+            onChange={event => onPreferHumanChange(event.target.checked)}
+            className="mt-1"
+          />
+          <span>
+            <span className="block font-semibold">Use human labels in metrics</span>
+            <span className="block text-sm text-white/70">
+              Manually verified reviews count with their human label instead of the model's
+              {results && ` (${verifiedCount} in range)`}.
+            </span>
+          </span>
+        </label>
+        <label className={toggleClass}>
+          <input
+            type="checkbox"
+            checked={excludeLowQuality}
+            onChange={event => onExcludeLowQualityChange(event.target.checked)}
+            className="mt-1"
+          />
+          <span>
+            <span className="block font-semibold">Exclude flagged reviews from metrics</span>
+            <span className="block text-sm text-white/70">
+              Duplicates and spam-like reviews are left out of every chart and score
+              {results && ` (${qualityIssues.length} flagged)`}.
+            </span>
+          </span>
+        </label>
+      </div>
+    </motion.div>
+  );
+};
+
+export default SettingsPage;
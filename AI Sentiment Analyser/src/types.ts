@@ -0,0 +1,200 @@
+export type SentimentLabel = 'Positive' | 'Negative' | 'Neutral';
+
+export type Emotion = 'joy' | 'anger' | 'sadness' | 'fear' | 'surprise' | 'trust';
+
+export interface ReviewRecord {
+  Review_ID: string;
+  Review_Text: string;
+  Rating?: number;
+  Product_Category?: string;
+  Review_Date?: string;
+  Reviewer_Location?: string;
+  Verified_Purchase?: boolean;
+  Helpful_Votes?: number;
+  Product_Price?: number;
+}
+
+export interface TermContribution {
+  term: string;
+  valence: number;
+  weight: number;
+  negated: boolean;
+  /** Praise read as sarcasm because a complaint follows it; its weight is flipped like a negation. */
+  sarcastic?: boolean;
+}
+
+export interface AspectMention {
+  aspect: string;
+  snippet: string;
+  score: number;
+}
+
+export interface ScoredReview extends ReviewRecord {
+  /** Detected ISO 639-1 code; absent on runs saved before language detection (all English). */
+  language?: string;
+  /** Set when no lexicon exists for the language: the scores are placeholders, not a neutral verdict. */
+  unsupported_language?: boolean;
+  polarity: number;
+  subjectivity: number;
+  vader_compound: number;
+  textblob_label: SentimentLabel;
+  vader_label: SentimentLabel;
+  /** How far to trust the label, 0..1; absent on runs saved before confidence scoring. */
+  confidence?: number;
+  /** Substantial praise and criticism in the same review. */
+  mixed?: boolean;
+  /** At least one sentence read as sarcastic. */
+  sarcasm?: boolean;
+  /** A reviewer's verdict from the labeling queue; attached at view time, never saved with the run. */
+  human_label?: SentimentLabel;
+  /** The trained classifier's label and P(Positive) − P(Negative); attached at view time while a model is active. */
+  classifier_label?: SentimentLabel;
+  classifier_score?: number;
+  /**
+   * For reviews the classifier was trained on: the cross-validation prediction from the fold that held
+   * the review out, so its agreement with the review's own label is not measured in-sample.
+   */
+  classifier_held_out_label?: SentimentLabel;
+  classifier_held_out_score?: number;
+  contributions: TermContribution[];
+  aspects: AspectMention[];
+  /** Summed emotion-lexicon associations; absent on runs saved before emotion scoring. */
+  emotions?: Partial<Record<Emotion, number>>;
+  dominant_emotion?: Emotion | null;
+}
+
+/** One manual verdict from the labeling queue. */
+export interface HumanLabel {
+  label: SentimentLabel;
+  labeled_at: string;
+  /** Hash of the labeled Review_Text; absent on labels saved before it was recorded. */
+  text_hash?: string;
+}
+
+/** Manual verdicts for a dataset, keyed by Review_ID. */
+export type HumanLabels = Record<string, HumanLabel>;
+
+export type ChartType = 'pie' | 'bar' | 'line' | 'area' | 'timeline';
+
+/** The Review Explorer's own filters; the term and emotion filters are set from other panels. */
+export interface ExplorerFilters {
+  query: string;
+  label: SentimentLabel | 'All';
+  category: string;
+  verified: 'All' | 'Verified' | 'Unverified';
+  language: string;
+}
+
+export interface ReviewDataset {
+  name: string;
+  reviews: ReviewRecord[];
+}
+
+export interface LexiconOverrides {
+  /** Added or re-weighted terms, valence -4..4. */
+  terms: Record<string, number>;
+  /** Built-in terms that should no longer carry sentiment. */
+  removed: string[];
+}
+
+export interface CustomLexicon extends LexiconOverrides {
+  name: string;
+  version: number;
+  updated_at: string;
+  /** Overrides applied on top of the global ones for reviews in a Product_Category. */
+  categories: Record<string, LexiconOverrides>;
+}
+
+export type SegmentDimension = 'Product_Category' | 'Reviewer_Location' | 'price_band' | 'Verified_Purchase';
+
+export interface SegmentSummary {
+  segment: string;
+  total: number;
+  distribution: Record<string, number>;
+  percentages: Record<string, number>;
+  satisfaction_score: number;
+  average_polarity: number;
+  top_positive_words: string[];
+  top_negative_words: string[];
+}
+
+export interface AspectSummary {
+  aspect: string;
+  mentions: number;
+  reviews: number;
+  average_sentiment: number;
+  positive: number;
+  negative: number;
+  neutral: number;
+  examples: Array<{ review_id: string; snippet: string; score: number }>;
+}
+
+export interface EmotionSummary {
+  emotion: Emotion;
+  /** Reviews expressing the emotion at all. */
+  reviews: number;
+  /** Reviews where it is the strongest emotion. */
+  dominant: number;
+  percentage: number;
+  average_intensity: number;
+  examples: Array<{ review_id: string; text: string; intensity: number }>;
+}
+
+export interface LanguageSummary {
+  language: string;
+  name: string;
+  supported: boolean;
+  reviews: number;
+  percentage: number;
+  /** Null for unsupported languages, which are not scored. */
+  satisfaction_score: number | null;
+  average_compound: number | null;
+}
+
+export interface AnalysisResults {
+  insights: {
+    total_reviews: number;
+    textblob_distribution: Record<string, number>;
+    vader_distribution: Record<string, number>;
+    textblob_percentages: Record<string, number>;
+    vader_percentages: Record<string, number>;
+    average_polarity: number;
+    average_subjectivity: number;
+    average_vader_compound: number;
+    satisfaction_trend: string;
+    satisfaction_score: number;
+    most_positive_review: {
+      id: string;
+      text: string;
+      polarity: number;
+    };
+    most_negative_review: {
+      id: string;
+      text: string;
+      polarity: number;
+    };
+    top_positive_words: string[];
+    top_negative_words: string[];
+  };
+  chart_data: {
+    sentiment_distribution: Array<{name: string; value: number; color: string}>;
+    polarity_scores: Array<{Review_ID: string; TB_Polarity: number; VADER_Compound: number}>;
+    sentiment_comparison: Array<{method: string; positive: number; negative: number; neutral: number}>;
+  };
+  segments: Record<SegmentDimension, SegmentSummary[]>;
+  aspects: AspectSummary[];
+  /** Absent on runs saved before emotion scoring. */
+  emotions?: EmotionSummary[];
+  /** Absent on runs saved before language detection. */
+  languages?: LanguageSummary[];
+  reviews: ScoredReview[];
+  analysis_timestamp: string;
+}
+
+export interface AnalysisRun {
+  id: string;
+  dataset: string;
+  /** CustomLexicon.version the run was scored with; 0 for the built-in lexicon. */
+  lexicon_version: number;
+  results: AnalysisResults;
+}
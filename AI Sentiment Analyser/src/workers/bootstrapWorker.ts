@@ -0,0 +1,13 @@
+import { bootstrapSatisfaction } from '../lib/satisfaction';
+import { BootstrapRequest, BootstrapResponse } from '../lib/workerPool';
+
+self.onmessage = (event: MessageEvent<BootstrapRequest>) => {
+  const { samples, options } = event.data;
+  let response: BootstrapResponse;
+  try {
+    response = bootstrapSatisfaction(samples, options);
+  } catch (error) {
+    response = { error: (error as Error).message };
+  }
+  self.postMessage(response);
+};
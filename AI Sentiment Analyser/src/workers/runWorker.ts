@@ -0,0 +1,35 @@
+import { ScoredReview } from '../types';
+import { summarizeReviews } from '../lib/analysis';
+import { assessQuality } from '../lib/quality';
+import { RunRequest, RunResponse, ViewSelection } from '../lib/workerPool';
+
+let run: ScoredReview[] = [];
+
+const viewOf = ({ positions, labels }: ViewSelection) => {
+  const view = positions.map(position => run[position]);
+  labels.forEach(({ index, labels }) => {
+    view[index] = { ...view[index], ...labels };
+  });
+  return view;
+};
+
+self.onmessage = (event: MessageEvent<RunRequest>) => {
+  const request = event.data;
+  if (request.type === 'load') {
+    run = request.reviews;
+    return;
+  }
+  let response: RunResponse;
+  try {
+    if (request.type === 'summarize') {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { reviews, ...summary } = summarizeReviews(viewOf(request.view), request.options);
+      response = { id: request.id, result: summary };
+    } else {
+      response = { id: request.id, result: assessQuality(run) };
+    }
+  } catch (error) {
+    response = { id: request.id, error: (error as Error).message };
+  }
+  self.postMessage(response);
+};
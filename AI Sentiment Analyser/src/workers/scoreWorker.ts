@@ -0,0 +1,13 @@
+import { scoreReviews } from '../lib/analysis';
+import { ScoreRequest, ScoreResponse } from '../lib/workerPool';
+
+self.onmessage = (event: MessageEvent<ScoreRequest>) => {
+  const { id, reviews, options } = event.data;
+  let response: ScoreResponse;
+  try {
+    response = { id, scored: scoreReviews(reviews, options) };
+  } catch (error) {
+    response = { id, error: (error as Error).message };
+  }
+  self.postMessage(response);
+};
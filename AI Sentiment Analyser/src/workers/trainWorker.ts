@@ -0,0 +1,15 @@
+import { TrainRequest, TrainResponse, trainWithValidation } from '../lib/workerPool';
+
+self.onmessage = (event: MessageEvent<TrainRequest>) => {
+  let response: TrainResponse;
+  try {
+    const model = trainWithValidation(event.data, ({ completed, total }) => {
+      const progress: TrainResponse = { type: 'fold', completed, total };
+      self.postMessage(progress);
+    });
+    response = { type: 'done', model };
+  } catch (error) {
+    response = { type: 'error', error: (error as Error).message };
+  }
+  self.postMessage(response);
+};